@@ -0,0 +1,20 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchAllPages } from './cloudkit';
+
+describe('fetchAllPages', () => {
+	it('follows continuation markers until the last page', async () => {
+		const fetchPage = vi.fn(async (marker: string | undefined) =>
+			marker === undefined ? { records: [1, 2], continuationMarker: 'page-2' } : { records: [3] },
+		);
+
+		expect(await fetchAllPages(fetchPage)).toEqual([1, 2, 3]);
+		expect(fetchPage.mock.calls).toEqual([[undefined], ['page-2']]);
+	});
+
+	it('stops at maxRecords even if more pages follow', async () => {
+		const fetchPage = vi.fn(async () => ({ records: [1, 2, 3], continuationMarker: 'more' }));
+
+		expect(await fetchAllPages(fetchPage, 5)).toEqual([1, 2, 3, 1, 2]);
+		expect(fetchPage).toHaveBeenCalledTimes(2);
+	});
+});
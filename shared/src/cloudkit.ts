@@ -0,0 +1,30 @@
+// Query paging for CloudKit Web Services, used by the web app's server-side reads and the worker's moderator changes.
+
+/** Records per query page, CloudKit's maximum */
+export const CLOUDKIT_PAGE_SIZE = 200;
+
+/**
+ * Stop after this many records. The largest query reads every cafe or price record in the public database,
+ * well below this, so reaching it means a continuation marker that never runs out rather than real data.
+ */
+export const CLOUDKIT_MAX_QUERY_RECORDS = 10_000;
+
+export interface CloudKitQueryPage<T> {
+	records: T[];
+	continuationMarker?: string;
+}
+
+/** Fetch pages, passing on each page's continuation marker, until the last page or `maxRecords` */
+export async function fetchAllPages<T>(
+	fetchPage: (continuationMarker: string | undefined) => Promise<CloudKitQueryPage<T>>,
+	maxRecords = CLOUDKIT_MAX_QUERY_RECORDS,
+): Promise<T[]> {
+	const records: T[] = [];
+	let continuationMarker: string | undefined;
+	do {
+		const page = await fetchPage(continuationMarker);
+		records.push(...page.records);
+		continuationMarker = page.continuationMarker;
+	} while (continuationMarker && records.length < maxRecords);
+	return records.slice(0, maxRecords);
+}
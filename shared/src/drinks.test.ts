@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalDrinkId, canonicalDrinkName, drinkCatalog, findCatalogDrink, normalizeDrinkText } from './drinks';
+
+describe('normalizeDrinkText', () => {
+	it('strips accents, case and punctuation', () => {
+		expect(normalizeDrinkText('  Caffè  Latte ')).toBe('caffe latte');
+		expect(normalizeDrinkText('Café-Crème')).toBe('cafe creme');
+		expect(normalizeDrinkText('Schümli')).toBe('schumli');
+	});
+});
+
+describe('findCatalogDrink', () => {
+	it.each([
+		['Espresso', 'espresso'],
+		['espresso', 'espresso'],
+		['Caffè', 'espresso'],
+		['Double Espresso', 'doppio'],
+		['Espresso Doppio', 'doppio'],
+		['Doppelter Espresso', 'doppio'],
+		['Cafe Latte', 'latte'],
+		['Caffè Latte', 'latte'],
+		['Latte Macchiato', 'latte-macchiato'],
+		['Espresso Macchiato', 'macchiato'],
+		['Cappucino', 'cappuccino'],
+		['Filterkaffee', 'filter-coffee'],
+		['Café Crème', 'caffe-crema'],
+		['flat-white', 'flat-white'],
+	])('maps %s to %s', (name, id) => {
+		expect(findCatalogDrink(name)?.id).toBe(id);
+	});
+
+	it('returns null for unknown drinks', () => {
+		expect(findCatalogDrink('Pumpkin Spice Frappé')).toBeNull();
+	});
+
+	it('has no alias shared by two drinks', () => {
+		const seen = new Map<string, string>();
+		for (const drink of drinkCatalog) {
+			for (const alias of [drink.id, drink.name, ...drink.aliases]) {
+				const key = normalizeDrinkText(alias);
+				expect(seen.get(key) ?? drink.id, `"${alias}"`).toBe(drink.id);
+				seen.set(key, drink.id);
+			}
+		}
+	});
+});
+
+describe('canonicalDrinkId / canonicalDrinkName', () => {
+	it('uses the catalog for known drinks', () => {
+		expect(canonicalDrinkId('Double Espresso')).toBe('doppio');
+		expect(canonicalDrinkName('Double Espresso')).toBe('Doppio');
+	});
+
+	it('keeps unknown drinks recognizable', () => {
+		expect(canonicalDrinkId('Chai  Latté')).toBe('chai latte');
+		expect(canonicalDrinkName('  Chai  Latté ')).toBe('Chai Latté');
+	});
+});
@@ -0,0 +1,85 @@
+// Canonical drink catalog shared by the worker and the web app.
+// Model output and older records use many spellings for the same drink; both sides map them
+// to a stable id here so filters, stats and lookups don't depend on how the name was written.
+
+export interface CatalogDrink {
+	id: string;
+	// Display name, also what the extraction prompt asks the model for
+	name: string;
+	// Other spellings in German, Italian and English, matched after normalizeDrinkText
+	aliases: string[];
+}
+
+export const drinkCatalog: CatalogDrink[] = [
+	{
+		id: 'espresso',
+		name: 'Espresso',
+		aliases: ['caffe', 'caffe espresso', 'cafe espresso', 'single espresso', 'espresso single', 'espresso solo', 'einfacher espresso', 'solo'],
+	},
+	{
+		id: 'doppio',
+		name: 'Doppio',
+		aliases: [
+			'double espresso',
+			'espresso doppio',
+			'doppio espresso',
+			'espresso double',
+			'doppelter espresso',
+			'doppelespresso',
+			'espresso doppelt',
+			'double shot',
+		],
+	},
+	{ id: 'ristretto', name: 'Ristretto', aliases: ['caffe ristretto', 'espresso ristretto'] },
+	{ id: 'lungo', name: 'Lungo', aliases: ['caffe lungo', 'espresso lungo'] },
+	{ id: 'americano', name: 'Americano', aliases: ['caffe americano', 'cafe americano', 'long black'] },
+	{ id: 'cappuccino', name: 'Cappuccino', aliases: ['cappucino', 'capuccino', 'capucino', 'cappuchino'] },
+	{ id: 'flat-white', name: 'Flat White', aliases: ['flatwhite'] },
+	{ id: 'latte', name: 'Latte', aliases: ['caffe latte', 'cafe latte', 'caffelatte', 'latte coffee'] },
+	{ id: 'latte-macchiato', name: 'Latte Macchiato', aliases: ['caffe latte macchiato'] },
+	{ id: 'macchiato', name: 'Macchiato', aliases: ['espresso macchiato', 'caffe macchiato'] },
+	{ id: 'cortado', name: 'Cortado', aliases: ['gibraltar'] },
+	{ id: 'mocha', name: 'Mocha', aliases: ['caffe mocha', 'cafe mocha', 'mocaccino', 'mochaccino', 'mokka latte'] },
+	{
+		id: 'filter-coffee',
+		name: 'Filter Coffee',
+		aliases: ['filterkaffee', 'filter', 'drip coffee', 'batch brew', 'pour over', 'handfilter', 'handaufguss', 'v60'],
+	},
+	{ id: 'caffe-crema', name: 'Caffè Crema', aliases: ['cafe creme', 'caffe crema', 'kaffee crema', 'schumli'] },
+	{ id: 'milchkaffee', name: 'Milchkaffee', aliases: ['cafe au lait'] },
+	{ id: 'cold-brew', name: 'Cold Brew', aliases: ['coldbrew'] },
+	{ id: 'espresso-tonic', name: 'Espresso Tonic', aliases: ['tonic espresso'] },
+];
+
+/** Lowercase, strip diacritics and punctuation, collapse whitespace */
+export function normalizeDrinkText(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/ß/g, 'ss')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+const drinksByAlias = new Map<string, CatalogDrink>();
+for (const drink of drinkCatalog) {
+	for (const alias of [drink.id, drink.name, ...drink.aliases]) {
+		drinksByAlias.set(normalizeDrinkText(alias), drink);
+	}
+}
+
+/** The catalog entry for a drink name, or null if it isn't a known drink */
+export function findCatalogDrink(name: string): CatalogDrink | null {
+	return drinksByAlias.get(normalizeDrinkText(name)) ?? null;
+}
+
+/** Canonical id for a drink name. Unknown drinks get their normalized text, so equal spellings still match. */
+export function canonicalDrinkId(name: string): string {
+	return findCatalogDrink(name)?.id ?? normalizeDrinkText(name);
+}
+
+/** Display name for a drink: the catalog name if known, otherwise the trimmed input */
+export function canonicalDrinkName(name: string): string {
+	return findCatalogDrink(name)?.name ?? name.trim().replace(/\s+/g, ' ');
+}
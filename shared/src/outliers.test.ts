@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { isPriceOutlier, scorePrice } from './outliers';
+
+const espressoStats = { q1: 2.2, median: 2.5, q3: 2.8 };
+
+describe('scorePrice', () => {
+	it('accepts prices within the usual range', () => {
+		expect(scorePrice(2.6, { stats: espressoStats, history: [2.4, 2.5] })).toEqual({ score: expect.any(Number), reasons: [], outlier: false });
+		expect(scorePrice(3.5, { stats: espressoStats }).outlier).toBe(false);
+	});
+
+	it('flags a price far beyond the quartiles', () => {
+		expect(scorePrice(28, { stats: espressoStats })).toMatchObject({ reasons: ['market'], outlier: true });
+		expect(scorePrice(0.25, { stats: { q1: 2, median: 2.2, q3: 2.5 } })).toMatchObject({ reasons: ['market'], outlier: true });
+	});
+
+	it("flags a price far from the cafe's own history", () => {
+		const score = scorePrice(5.6, { history: [2.8, 2.7, 2.9] });
+
+		expect(score).toMatchObject({ reasons: ['history'], outlier: true });
+		expect(score.score).toBeCloseTo(1);
+	});
+
+	it('reports every check that flagged the price', () => {
+		expect(scorePrice(28, { stats: espressoStats, history: [2.8] })).toMatchObject({ reasons: ['market', 'history'], outlier: true });
+	});
+
+	it('scores 0 without context or without spread', () => {
+		expect(scorePrice(28, {})).toEqual({ score: 0, reasons: [], outlier: false });
+		expect(scorePrice(28, { stats: { q1: 2.5, median: 2.5, q3: 2.5 }, history: [] })).toEqual({ score: 0, reasons: [], outlier: false });
+	});
+});
+
+describe('isPriceOutlier', () => {
+	it('returns the verdict only', () => {
+		expect(isPriceOutlier(28, { stats: espressoStats })).toBe(true);
+		expect(isPriceOutlier(2.8, { stats: espressoStats })).toBe(false);
+	});
+});
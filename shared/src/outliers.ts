@@ -0,0 +1,81 @@
+// Outlier detection for drink prices, shared by the worker and the web app.
+// A typo like 28.00 for 2.80 should not land on the map or skew the quartiles, so each price is
+// scored against the drink's quartiles across cafes and against what the cafe itself charged before.
+
+/** Quartiles of a drink's prices across cafes; the web's DrinkPriceStats has this shape */
+export interface PriceQuartiles {
+	q1: number;
+	median: number;
+	q3: number;
+}
+
+export interface OutlierContext {
+	// Quartiles for the drink, if enough prices are known
+	stats?: PriceQuartiles | null;
+	// Earlier prices for the same drink at the same cafe
+	history?: number[];
+}
+
+export type OutlierReason = 'market' | 'history';
+
+export interface OutlierScore {
+	// 0 for a typical price; 1 or more means at least one check flagged it
+	score: number;
+	reasons: OutlierReason[];
+	outlier: boolean;
+}
+
+/** Tukey's "far out" fence: further than 3 IQRs beyond the quartiles */
+export const IQR_FENCE = 3;
+/** A cafe rarely doubles or halves a price between two visits */
+export const HISTORY_RATIO_LIMIT = 2;
+
+function medianOf(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Distance beyond the quartiles in units of the fence, 0 inside them
+function marketScore(price: number, stats: PriceQuartiles): number {
+	const iqr = stats.q3 - stats.q1;
+	if (iqr <= 0) {
+		return 0;
+	}
+	const distance = price > stats.q3 ? price - stats.q3 : price < stats.q1 ? stats.q1 - price : 0;
+	return distance / iqr / IQR_FENCE;
+}
+
+// How far the price is from the cafe's usual price, scaled so the ratio limit scores 1
+function historyScore(price: number, history: number[]): number {
+	const usual = medianOf(history);
+	if (usual <= 0 || price <= 0) {
+		return 0;
+	}
+	const ratio = Math.max(price / usual, usual / price);
+	return (ratio - 1) / (HISTORY_RATIO_LIMIT - 1);
+}
+
+/** Score a price against the drink's quartiles and the cafe's history. Missing context scores 0. */
+export function scorePrice(price: number, context: OutlierContext): OutlierScore {
+	const scores: [OutlierReason, number][] = [];
+	if (context.stats) {
+		scores.push(['market', marketScore(price, context.stats)]);
+	}
+	const history = context.history?.filter((value) => value > 0) ?? [];
+	if (history.length > 0) {
+		scores.push(['history', historyScore(price, history)]);
+	}
+
+	const reasons = scores.filter(([, score]) => score >= 1).map(([reason]) => reason);
+	return {
+		score: Math.max(0, ...scores.map(([, score]) => score)),
+		reasons,
+		outlier: reasons.length > 0,
+	};
+}
+
+/** Convenience for callers that only need the verdict */
+export function isPriceOutlier(price: number, context: OutlierContext): boolean {
+	return scorePrice(price, context).outlier;
+}
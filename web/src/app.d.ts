@@ -14,6 +14,7 @@ declare global {
 	interface Window {
 		mapkit: typeof mapkit;
 		CloudKit: typeof CloudKit;
+		AppleID: typeof AppleID;
 	}
 
 	namespace mapkit {
@@ -32,9 +33,36 @@ declare global {
 			removeAnnotation(annotation: Annotation): void;
 			removeAnnotations(annotations: Annotation[]): void;
 			showItems(items: Annotation[], options?: MapShowItemsOptions): void;
+			addEventListener(type: string, listener: (event: unknown) => void): void;
+			removeEventListener(type: string, listener: (event: unknown) => void): void;
+			addOverlay(overlay: Overlay): void;
+			removeOverlay(overlay: Overlay): void;
 			destroy(): void;
 		}
 
+		class Overlay {
+			style: Style;
+		}
+
+		class CircleOverlay extends Overlay {
+			constructor(coordinate: Coordinate, radius: number, options?: { style?: Style });
+			coordinate: Coordinate;
+			radius: number;
+		}
+
+		class Style {
+			constructor(options?: StyleOptions);
+		}
+
+		interface StyleOptions {
+			strokeColor?: string;
+			strokeOpacity?: number;
+			lineWidth?: number;
+			lineDash?: number[];
+			fillColor?: string;
+			fillOpacity?: number;
+		}
+
 		class Annotation {
 			constructor(
 				coordinate: Coordinate,
@@ -107,6 +135,33 @@ declare global {
 			language?: string;
 		}
 
+		class Search {
+			constructor(options?: SearchConstructorOptions);
+			search(
+				query: string,
+				callback: (error: Error | null, data: SearchResponse) => void,
+				options?: { coordinate?: Coordinate; region?: CoordinateRegion }
+			): number;
+		}
+
+		interface SearchConstructorOptions {
+			language?: string;
+			includePointsOfInterest?: boolean;
+			includeAddresses?: boolean;
+			coordinate?: Coordinate;
+		}
+
+		interface SearchResponse {
+			query: string;
+			places: Place[];
+		}
+
+		interface Place {
+			name: string;
+			coordinate: Coordinate;
+			formattedAddress?: string;
+		}
+
 		const FeatureVisibility: {
 			Adaptive: number;
 			Hidden: number;
@@ -131,6 +186,8 @@ declare global {
 				persist: boolean;
 			};
 			environment: 'development' | 'production';
+			signInButton?: { id: string; theme?: string };
+			signOutButton?: { id: string; theme?: string };
 		}
 
 		function configure(config: CloudKitConfig): Container;
@@ -140,14 +197,25 @@ declare global {
 		interface Container {
 			publicCloudDatabase: Database;
 			setUpAuth(): Promise<UserIdentity | null>;
+			whenUserSignsIn(): Promise<UserIdentity>;
+			whenUserSignsOut(): Promise<void>;
 		}
 
 		interface Database {
-			performQuery(query: Query): Promise<QueryResponse>;
+			performQuery(query: Query | QueryResponse, options?: QueryOptions): Promise<QueryResponse>;
 			fetchRecords(
 				recordNames: string[],
 				options?: { desiredKeys?: string[] }
 			): Promise<RecordsResponse>;
+			saveRecords(records: RecordToSave[]): Promise<RecordsResponse>;
+		}
+
+		/** A new record, or an update when `recordChangeTag` is set */
+		interface RecordToSave {
+			recordName?: string;
+			recordType: string;
+			recordChangeTag?: string;
+			fields: Record<string, RecordField>;
 		}
 
 		interface Query {
@@ -156,6 +224,11 @@ declare global {
 			sortBy?: SortDescriptor[];
 		}
 
+		interface QueryOptions {
+			resultsLimit?: number;
+			desiredKeys?: string[];
+		}
+
 		interface FilterObject {
 			fieldName: string;
 			comparator: string;
@@ -179,11 +252,20 @@ declare global {
 
 		interface RecordsResponse {
 			records: CKRecord[];
+			hasErrors?: boolean;
+			errors?: CKError[];
+		}
+
+		interface CKError {
+			ckErrorCode: string;
+			reason?: string;
+			recordName?: string;
 		}
 
 		interface CKRecord {
 			recordName: string;
 			recordType: string;
+			recordChangeTag?: string;
 			fields: Record<string, RecordField>;
 			created?: { timestamp: number; userRecordName?: string };
 			modified?: { timestamp: number; userRecordName?: string };
@@ -224,6 +306,36 @@ declare global {
 			timestamp?: number;
 		}
 	}
+
+	/** Sign in with Apple JS */
+	namespace AppleID {
+		namespace auth {
+			function init(config: InitConfig): void;
+			function signIn(): Promise<SignInResponse>;
+		}
+
+		interface InitConfig {
+			clientId: string;
+			scope?: string;
+			redirectURI: string;
+			state?: string;
+			nonce?: string;
+			usePopup?: boolean;
+		}
+
+		interface SignInResponse {
+			authorization: {
+				code: string;
+				id_token: string;
+				state?: string;
+			};
+			/** Only present the first time a user signs in to the app */
+			user?: {
+				email?: string;
+				name?: { firstName?: string; lastName?: string };
+			};
+		}
+	}
 }
 
 export {};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { mergeCafes, updateCafe, validateCafeDetails } from './admin';
+
+const details = { name: ' Café Lehel ', address: 'Thierschstraße 1, 80538 München', latitude: 48.1374, longitude: 11.5855 };
+
+function stubFetch(status: number, body: unknown) {
+	const requests: Request[] = [];
+	const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+		requests.push(new Request(input, init));
+		return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+	};
+	return { fetch, requests };
+}
+
+describe('validateCafeDetails', () => {
+	it('accepts a named cafe with valid coordinates', () => {
+		expect(validateCafeDetails(details)).toBeNull();
+	});
+
+	it('rejects a missing name and out-of-range coordinates', () => {
+		expect(validateCafeDetails({ ...details, name: '  ' })).toMatch(/name/);
+		expect(validateCafeDetails({ ...details, latitude: 91 })).toMatch(/Latitude/);
+		expect(validateCafeDetails({ ...details, longitude: NaN })).toMatch(/Longitude/);
+	});
+});
+
+describe('updateCafe', () => {
+	it('posts the trimmed details to the worker with the identity token', async () => {
+		const { fetch, requests } = stubFetch(200, { recordName: 'cafe-1' });
+
+		await updateCafe('cafe-1', details, { workerUrl: 'https://worker.test', identityToken: 'token', fetch });
+
+		expect(requests[0].method).toBe('POST');
+		expect(requests[0].url).toBe('https://worker.test/v1/admin/cafes/update');
+		expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+		expect(await requests[0].json()).toEqual({
+			recordName: 'cafe-1',
+			name: 'Café Lehel',
+			address: 'Thierschstraße 1, 80538 München',
+			latitude: 48.1374,
+			longitude: 11.5855
+		});
+	});
+
+	it('fails with a 403 for users who are not moderators', async () => {
+		const { fetch } = stubFetch(403, { error: 'Not allowed', code: 'FORBIDDEN', message: 'This account is not a moderator' });
+
+		const options = { workerUrl: 'https://worker.test', identityToken: 'token', fetch };
+
+		await expect(updateCafe('cafe-1', details, options)).rejects.toMatchObject({ status: 403, code: 'FORBIDDEN' });
+	});
+});
+
+describe('mergeCafes', () => {
+	it('posts both cafes and returns the outcome', async () => {
+		const { fetch, requests } = stubFetch(200, { moved: 3, currentPrice: null });
+
+		const outcome = await mergeCafes('cafe-1', 'cafe-2', { workerUrl: 'https://worker.test', identityToken: 'token', fetch });
+
+		expect(outcome).toEqual({ moved: 3, currentPrice: null });
+		expect(requests[0].url).toBe('https://worker.test/v1/admin/cafes/merge');
+		expect(await requests[0].json()).toEqual({ keepRecordName: 'cafe-1', duplicateRecordName: 'cafe-2' });
+	});
+});
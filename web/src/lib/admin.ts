@@ -0,0 +1,60 @@
+import { z } from 'zod/v4';
+import type { ModeratorOptions } from './moderation';
+import type { Cafe } from './types';
+import { workerRequest } from './worker';
+
+/** The cafe fields a moderator can edit */
+export type CafeDetails = Pick<Cafe, 'name' | 'address' | 'latitude' | 'longitude'>;
+
+/** Returns an error message, or null if the details can be saved */
+export function validateCafeDetails(details: CafeDetails): string | null {
+	if (!details.name.trim()) return 'The cafe needs a name.';
+	if (!Number.isFinite(details.latitude) || Math.abs(details.latitude) > 90) return 'Latitude must be between -90 and 90.';
+	if (!Number.isFinite(details.longitude) || Math.abs(details.longitude) > 180) {
+		return 'Longitude must be between -180 and 180.';
+	}
+	return null;
+}
+
+const mergeOutcomeSchema = z.object({
+	moved: z.number(),
+	currentPrice: z.number().nullable()
+});
+
+/** Price records moved to the kept cafe and its espresso price afterwards */
+export type MergeOutcome = z.infer<typeof mergeOutcomeSchema>;
+
+/**
+ * Update a cafe's name, address and coordinates. The worker writes with its
+ * CloudKit server key, so only moderators on its allowlist can do this; others
+ * get a 403 `WorkerError`, and a 503 when the worker has no key configured.
+ */
+export async function updateCafe(recordName: string, details: CafeDetails, options: ModeratorOptions): Promise<void> {
+	await workerRequest('/v1/admin/cafes/update', z.object({ recordName: z.string() }), {
+		...options,
+		method: 'POST',
+		body: JSON.stringify({
+			recordName,
+			name: details.name.trim(),
+			address: details.address.trim(),
+			latitude: details.latitude,
+			longitude: details.longitude
+		})
+	});
+}
+
+/**
+ * Move a duplicate cafe's price records to the cafe to keep and delete the
+ * duplicate, through the worker like `updateCafe`.
+ */
+export async function mergeCafes(
+	keepRecordName: string,
+	duplicateRecordName: string,
+	options: ModeratorOptions
+): Promise<MergeOutcome> {
+	return workerRequest('/v1/admin/cafes/merge', mergeOutcomeSchema, {
+		...options,
+		method: 'POST',
+		body: JSON.stringify({ keepRecordName, duplicateRecordName })
+	});
+}
@@ -0,0 +1,113 @@
+const APPLE_ID_SCRIPT_URL =
+  "https://appleid.cdn-apple.com/appleauth/static/jsapi/appleid/1/en_US/appleid.auth.js";
+
+export interface AppleSignIn {
+  /** Identity token, sent to the price extraction worker */
+  identityToken: string;
+  /** When the identity token expires, in milliseconds */
+  expiresAt: number;
+  /** Apple only shares the name the first time a user signs in */
+  name: string | null;
+}
+
+// Treat tokens this close to expiry as expired, so they don't lapse in flight
+const EXPIRY_MARGIN_MS = 60_000;
+
+let appleIdInitialized = false;
+let initPromise: Promise<void> | null = null;
+let lastSignIn: AppleSignIn | null = null;
+
+function loadScript(): void {
+  if (document.querySelector(`script[src="${APPLE_ID_SCRIPT_URL}"]`)) return;
+
+  const script = document.createElement("script");
+  script.src = APPLE_ID_SCRIPT_URL;
+  script.async = true;
+  document.head.appendChild(script);
+}
+
+/** `exp` claim of a JWT in milliseconds, or now if it can't be read */
+function tokenExpiry(token: string): number {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return typeof exp === "number" ? exp * 1000 : Date.now();
+  } catch {
+    return Date.now();
+  }
+}
+
+export async function initAppleSignIn(
+  clientId: string,
+  redirectURI: string,
+): Promise<void> {
+  if (appleIdInitialized) return;
+
+  if (initPromise) {
+    return initPromise;
+  }
+
+  initPromise = new Promise((resolve, reject) => {
+    if (typeof window === "undefined") {
+      reject(new Error("Sign in with Apple can only be initialized in the browser"));
+      return;
+    }
+    loadScript();
+
+    const checkAppleId = () => {
+      if (window.AppleID) {
+        try {
+          window.AppleID.auth.init({
+            clientId,
+            scope: "name",
+            redirectURI,
+            usePopup: true,
+          });
+          appleIdInitialized = true;
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      } else {
+        setTimeout(checkAppleId, 100);
+      }
+    };
+    checkAppleId();
+  });
+
+  return initPromise;
+}
+
+/** Whether a sign in failed because the user closed the popup */
+export function isSignInCancelled(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "error" in error &&
+    error.error === "popup_closed_by_user"
+  );
+}
+
+export async function signInWithApple(): Promise<AppleSignIn> {
+  if (!appleIdInitialized) {
+    throw new Error("Sign in with Apple not initialized");
+  }
+
+  const response = await window.AppleID.auth.signIn();
+  const { firstName, lastName } = response.user?.name ?? {};
+  const identityToken = response.authorization.id_token;
+  lastSignIn = {
+    identityToken,
+    expiresAt: tokenExpiry(identityToken),
+    name: [firstName, lastName].filter(Boolean).join(" ") || null,
+  };
+  return lastSignIn;
+}
+
+/** The last sign in while its token is still valid, otherwise a new sign in */
+export async function currentAppleSignIn(): Promise<AppleSignIn> {
+  if (lastSignIn && lastSignIn.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return lastSignIn;
+  }
+  return signInWithApple();
+}
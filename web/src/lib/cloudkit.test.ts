@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { fetchPriceRecordsForCafes, initCloudKit, type QueryProgress } from './cloudkit';
+
+const performQuery = vi.fn();
+
+beforeAll(async () => {
+	vi.stubGlobal('window', {
+		CloudKit: {
+			configure: vi.fn(),
+			getDefaultContainer: () => ({ publicCloudDatabase: { performQuery } })
+		}
+	});
+	await initCloudKit('test-token');
+});
+
+function priceRecordFor(cafeRecordName: string): CloudKit.CKRecord {
+	return {
+		recordName: `price-${cafeRecordName}`,
+		recordType: 'PriceRecord',
+		fields: {
+			date: { value: Date.UTC(2025, 0, 1) },
+			cafeReference: { value: { recordName: cafeRecordName } },
+			price: { value: 2.5 }
+		}
+	} as CloudKit.CKRecord;
+}
+
+/** Answers each query with one record per cafe in its cafeReference filter */
+function answerPerCafe(query: CloudKit.Query) {
+	const filter = query.filterBy![0];
+	const references = (filter.comparator === 'IN' ? filter.fieldValue.value : [filter.fieldValue.value]) as { recordName: string }[];
+	return Promise.resolve({ records: references.map(({ recordName }) => priceRecordFor(recordName)), hasMoreResults: false });
+}
+
+describe('fetchPriceRecordsForCafes', () => {
+	it('queries the cafes in IN filters of at most 50', async () => {
+		performQuery.mockReset().mockImplementation(answerPerCafe);
+		const cafeRecordNames = Array.from({ length: 120 }, (_, i) => `cafe-${i}`);
+		const progress: QueryProgress[] = [];
+
+		const records = await fetchPriceRecordsForCafes(cafeRecordNames, { onProgress: (p) => progress.push(p) });
+
+		const chunks = performQuery.mock.calls.map(([query]) => (query.filterBy[0].fieldValue.value as unknown[]).length);
+		expect(chunks).toEqual([50, 50, 20]);
+		expect(records).toHaveLength(120);
+		// Progress counts across chunks
+		expect(progress.map((p) => p.fetched)).toEqual([50, 100, 120]);
+	});
+
+	it('uses an EQUALS filter for a single cafe and skips the query for none', async () => {
+		performQuery.mockReset().mockImplementation(answerPerCafe);
+
+		await fetchPriceRecordsForCafes(['cafe-1']);
+		await fetchPriceRecordsForCafes([]);
+
+		expect(performQuery).toHaveBeenCalledTimes(1);
+		expect(performQuery.mock.calls[0][0].filterBy[0]).toMatchObject({
+			comparator: 'EQUALS',
+			fieldValue: { value: { recordName: 'cafe-1' } }
+		});
+	});
+});
@@ -1,7 +1,44 @@
-import type { Cafe, PriceRecord, DrinkPrice } from "./types";
+import type { Cafe, DrinkPrice, GeoBounds, PriceRecord } from "./types";
+import { findEspressoPrice } from "./types";
+import {
+  cafeRecordToSave,
+  newCafeRecordName,
+  priceRecordToSave,
+  type CafeCandidate,
+} from "./contribute";
+import { mapCafeRecord, mapPriceRecord, mapRecords } from "./records";
+import type { RecordWarning } from "./records";
+import { cafesQuery, priceRecordsQuery, REFERENCE_CHUNK_SIZE } from "./queries";
 import { dev } from "$app/environment";
 
-const CONTAINER_IDENTIFIER = "iCloud.com.timokuehne.Espressokarte";
+export const CONTAINER_IDENTIFIER = "iCloud.com.timokuehne.Espressokarte";
+
+// Elements CloudKit JS renders its iCloud sign in and sign out buttons into
+export const SIGN_IN_BUTTON_ID = "apple-sign-in-button";
+export const SIGN_OUT_BUTTON_ID = "apple-sign-out-button";
+
+// CloudKit caps a single query page at 200 records
+const DEFAULT_PAGE_SIZE = 200;
+// The map loads every cafe and price record once per visit; a cap this far
+// above the database size only stops a continuation marker that never runs
+// out from paging on in the user's tab
+const DEFAULT_MAX_RECORDS = 10_000;
+
+export interface QueryProgress {
+  recordType: string;
+  fetched: number;
+  pages: number;
+}
+
+export interface PaginationOptions {
+  pageSize?: number;
+  maxRecords?: number;
+  onProgress?: (progress: QueryProgress) => void;
+}
+
+export interface FetchOptions extends PaginationOptions {
+  onWarning?: (warning: RecordWarning) => void;
+}
 
 let cloudKitConfigured = false;
 let configurePromise: Promise<void> | null = null;
@@ -31,6 +68,8 @@ export async function initCloudKit(apiToken: string): Promise<void> {
                   persist: false,
                 },
                 environment: dev ? "development" : "production",
+                signInButton: { id: SIGN_IN_BUTTON_ID, theme: "black" },
+                signOutButton: { id: SIGN_OUT_BUTTON_ID, theme: "black" },
               },
             ],
           });
@@ -49,162 +88,225 @@ export async function initCloudKit(apiToken: string): Promise<void> {
   return configurePromise;
 }
 
-export async function fetchAllCafes(): Promise<Cafe[]> {
+function getPublicDatabase(): CloudKit.Database {
   if (!cloudKitConfigured) {
     throw new Error("CloudKit not initialized");
   }
 
-  const container = window.CloudKit.getDefaultContainer();
-  const database = container.publicCloudDatabase;
+  return window.CloudKit.getDefaultContainer().publicCloudDatabase;
+}
+
+/**
+ * Run a query and follow continuation markers until all records are fetched
+ * or `maxRecords` is reached.
+ */
+export async function performPaginatedQuery(
+  query: CloudKit.Query,
+  options: PaginationOptions = {},
+): Promise<CloudKit.CKRecord[]> {
+  const {
+    pageSize = DEFAULT_PAGE_SIZE,
+    maxRecords = DEFAULT_MAX_RECORDS,
+    onProgress,
+  } = options;
+  const database = getPublicDatabase();
 
-  const response = await database.performQuery({
-    recordType: "Cafe",
+  const records: CloudKit.CKRecord[] = [];
+  let pages = 0;
+  let response = await database.performQuery(query, {
+    resultsLimit: Math.min(pageSize, maxRecords),
   });
 
-  return response.records.map((record) => ({
-    id: record.recordName,
-    recordName: record.recordName,
-    cafeId: (record.fields.cafeId?.value as string) || "",
-    name: (record.fields.name?.value as string) || "Unknown Cafe",
-    address: (record.fields.address?.value as string) || "",
-    latitude: (record.fields.latitude?.value as number) || 0,
-    longitude: (record.fields.longitude?.value as number) || 0,
-    currentPrice: (record.fields.currentPrice?.value as number) ?? null,
-  }));
-}
+  while (true) {
+    records.push(...response.records);
+    pages++;
+    onProgress?.({ recordType: query.recordType, fetched: records.length, pages });
 
-export async function fetchCafe(recordName: string): Promise<Cafe | null> {
-  if (!cloudKitConfigured) {
-    throw new Error("CloudKit not initialized");
+    if (
+      !response.hasMoreResults ||
+      !response.continuationMarker ||
+      records.length >= maxRecords
+    ) {
+      break;
+    }
+
+    // Passing the previous response continues from its continuation marker
+    response = await database.performQuery(response, {
+      resultsLimit: Math.min(pageSize, maxRecords - records.length),
+    });
+  }
+
+  if (records.length > maxRecords) {
+    records.length = maxRecords;
   }
 
-  const container = window.CloudKit.getDefaultContainer();
-  const database = container.publicCloudDatabase;
+  return records;
+}
+
+export async function fetchAllCafes(options?: FetchOptions): Promise<Cafe[]> {
+  const records = await performPaginatedQuery(cafesQuery(), options);
+  return mapRecords(records, mapCafeRecord, options?.onWarning);
+}
+
+/** Fetch cafes whose coordinates fall inside the bounds (inclusive) */
+export async function fetchCafesInBounds(
+  bounds: GeoBounds,
+  options?: FetchOptions,
+): Promise<Cafe[]> {
+  const records = await performPaginatedQuery(cafesQuery(bounds), options);
+  return mapRecords(records, mapCafeRecord, options?.onWarning);
+}
+
+export async function fetchCafe(
+  recordName: string,
+  options?: FetchOptions,
+): Promise<Cafe | null> {
+  const database = getPublicDatabase();
 
   try {
     const response = await database.fetchRecords([recordName]);
-    if (response.records.length === 0) return null;
-
-    const record = response.records[0];
-    return {
-      id: record.recordName,
-      recordName: record.recordName,
-      cafeId: (record.fields.cafeId?.value as string) || "",
-      name: (record.fields.name?.value as string) || "Unknown Cafe",
-      address: (record.fields.address?.value as string) || "",
-      latitude: (record.fields.latitude?.value as number) || 0,
-      longitude: (record.fields.longitude?.value as number) || 0,
-      currentPrice: (record.fields.currentPrice?.value as number) ?? null,
-    };
+    const [cafe] = mapRecords(
+      response.records,
+      mapCafeRecord,
+      options?.onWarning,
+    );
+    return cafe ?? null;
   } catch {
     return null;
   }
 }
 
-export async function fetchAllPriceRecords(): Promise<PriceRecord[]> {
-  if (!cloudKitConfigured) {
-    throw new Error("CloudKit not initialized");
+export async function fetchAllPriceRecords(
+  options?: FetchOptions,
+): Promise<PriceRecord[]> {
+  const records = await performPaginatedQuery(priceRecordsQuery(), options);
+  return mapRecords(records, mapPriceRecord, options?.onWarning);
+}
+
+export async function fetchPriceHistory(
+  cafeRecordName: string,
+  options?: FetchOptions,
+): Promise<PriceRecord[]> {
+  const records = await performPaginatedQuery(
+    priceRecordsQuery([cafeRecordName]),
+    options,
+  );
+  return mapRecords(records, mapPriceRecord, options?.onWarning);
+}
+
+/** Fetch price records for several cafes, newest first */
+export async function fetchPriceRecordsForCafes(
+  cafeRecordNames: string[],
+  options?: FetchOptions,
+): Promise<PriceRecord[]> {
+  const records: CloudKit.CKRecord[] = [];
+
+  for (let i = 0; i < cafeRecordNames.length; i += REFERENCE_CHUNK_SIZE) {
+    const chunk = cafeRecordNames.slice(i, i + REFERENCE_CHUNK_SIZE);
+    const fetched = records.length;
+    const page = await performPaginatedQuery(
+      priceRecordsQuery(chunk),
+      {
+        ...options,
+        onProgress: (progress) =>
+          options?.onProgress?.({
+            ...progress,
+            fetched: fetched + progress.fetched,
+          }),
+      },
+    );
+    records.push(...page);
   }
 
-  const container = window.CloudKit.getDefaultContainer();
-  const database = container.publicCloudDatabase;
+  const priceRecords = mapRecords(records, mapPriceRecord, options?.onWarning);
+  return priceRecords.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
 
-  const response = await database.performQuery({
-    recordType: "PriceRecord",
-    sortBy: [{ fieldName: "date", ascending: false }],
-  });
+/**
+ * Check for an iCloud session and render the sign in (or sign out) button.
+ * Resolves with the signed in user, or null if the user still has to sign in.
+ */
+export async function setUpCloudKitAuth(): Promise<CloudKit.UserIdentity | null> {
+  if (!cloudKitConfigured) {
+    throw new Error("CloudKit not initialized");
+  }
 
-  return response.records.map((record) => {
-    const asset = record.fields.menuImage?.value as CloudKit.Asset | undefined;
-    const drinksJSON = record.fields.drinksJSON?.value as string | undefined;
-    let drinks: { name: string; price: number }[] = [];
+  return window.CloudKit.getDefaultContainer().setUpAuth();
+}
 
-    if (drinksJSON) {
-      try {
-        drinks = JSON.parse(drinksJSON);
-      } catch {
-        // Fallback to legacy price field
-      }
-    }
+/** Resolves once the user signs in with the button rendered by `setUpCloudKitAuth` */
+export async function whenCloudKitUserSignsIn(): Promise<CloudKit.UserIdentity> {
+  return window.CloudKit.getDefaultContainer().whenUserSignsIn();
+}
 
-    if (drinks.length === 0) {
-      const legacyPrice = record.fields.price?.value as number | undefined;
-      if (legacyPrice) {
-        drinks = [{ name: "Espresso", price: legacyPrice }];
-      }
-    }
+function recordError(error: CloudKit.CKError): Error {
+  return new Error(error.reason || `CloudKit error ${error.ckErrorCode}`);
+}
 
-    return {
-      id: record.recordName,
-      recordName: record.recordName,
-      price: (record.fields.price?.value as number) || 0,
-      date: new Date((record.fields.date?.value as number) || Date.now()),
-      addedBy: (record.fields.addedBy?.value as string) || "",
-      addedByName: (record.fields.addedByName?.value as string) || "Anonymous",
-      note: (record.fields.note?.value as string) || null,
-      menuImageUrl: asset?.downloadURL || null,
-      cafeRecordName:
-        (record.fields.cafeReference?.value as CloudKit.Reference)
-          ?.recordName || "",
-      drinks,
-    };
-  });
+async function fetchRecordIfExists(
+  recordName: string,
+): Promise<CloudKit.CKRecord | null> {
+  let response: CloudKit.RecordsResponse;
+  try {
+    response = await getPublicDatabase().fetchRecords([recordName]);
+  } catch (error) {
+    // Depending on the version, CloudKit JS rejects or reports a missing record
+    if ((error as CloudKit.CKError)?.ckErrorCode === "NOT_FOUND") return null;
+    throw error;
+  }
+  const [error] = response.errors ?? [];
+  if (error?.ckErrorCode === "NOT_FOUND") return null;
+  if (error) throw recordError(error);
+  return response.records[0] ?? null;
 }
 
-export async function fetchPriceHistory(
-  cafeRecordName: string,
-): Promise<PriceRecord[]> {
-  if (!cloudKitConfigured) {
-    throw new Error("CloudKit not initialized");
+async function saveRecord(record: CloudKit.RecordToSave): Promise<void> {
+  const response = await getPublicDatabase().saveRecords([record]);
+  if (response.hasErrors && response.errors?.[0]) {
+    throw recordError(response.errors[0]);
   }
+}
 
-  const container = window.CloudKit.getDefaultContainer();
-  const database = container.publicCloudDatabase;
+export interface Contribution {
+  cafe: CafeCandidate;
+  drinks: DrinkPrice[];
+  note: string;
+  addedByName: string;
+  menuImage?: Blob | null;
+}
 
-  const response = await database.performQuery({
-    recordType: "PriceRecord",
-    filterBy: [
-      {
-        fieldName: "cafeReference",
-        comparator: "EQUALS",
-        fieldValue: { value: { recordName: cafeRecordName } },
-      },
-    ],
-    sortBy: [{ fieldName: "date", ascending: false }],
-  });
+/**
+ * Save reviewed prices as a new price record, creating the cafe if it is not
+ * in CloudKit yet and updating its current espresso price, like
+ * `addOrUpdateCafe` in the iOS app. Requires an iCloud session.
+ * Returns the cafe's record name.
+ */
+export async function saveContribution(
+  contribution: Contribution,
+  user: CloudKit.UserIdentity,
+): Promise<string> {
+  const { cafe, drinks } = contribution;
+  const espressoPrice = findEspressoPrice(drinks);
+  if (espressoPrice === null) {
+    throw new Error("An espresso price is required");
+  }
 
-  return response.records.map((record) => {
-    const asset = record.fields.menuImage?.value as CloudKit.Asset | undefined;
-
-    // Parse drinks from JSON, with backward compatibility for legacy price field
-    let drinks: DrinkPrice[] = [];
-    const drinksJSON = record.fields.drinksJSON?.value as string | undefined;
-    if (drinksJSON) {
-      try {
-        drinks = JSON.parse(drinksJSON) as DrinkPrice[];
-      } catch {
-        drinks = [];
-      }
-    } else {
-      // Legacy record: convert price field to drinks array
-      const legacyPrice = record.fields.price?.value as number | undefined;
-      if (legacyPrice !== undefined) {
-        drinks = [{ name: "Espresso", price: legacyPrice }];
-      }
-    }
+  const cafeRecordName = cafe.recordName ?? newCafeRecordName(cafe);
+  const existing = await fetchRecordIfExists(cafeRecordName);
+  await saveRecord(
+    cafeRecordToSave({ ...cafe, recordName: cafeRecordName }, espressoPrice, existing),
+  );
 
-    return {
-      id: record.recordName,
-      recordName: record.recordName,
+  await saveRecord(
+    priceRecordToSave({
+      cafeRecordName,
       drinks,
-      date: new Date((record.fields.date?.value as number) || Date.now()),
-      addedBy: (record.fields.addedBy?.value as string) || "",
-      addedByName: (record.fields.addedByName?.value as string) || "Anonymous",
-      note: (record.fields.note?.value as string) || null,
-      menuImageUrl: asset?.downloadURL || null,
-      cafeRecordName:
-        (record.fields.cafeReference?.value as CloudKit.Reference)
-          ?.recordName || "",
-    };
-  });
+      note: contribution.note,
+      addedBy: user.userRecordName,
+      addedByName: contribution.addedByName,
+      menuImage: contribution.menuImage,
+    }),
+  );
+
+  return cafeRecordName;
 }
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+	cafeRecordToSave,
+	cleanDrinks,
+	extractDrinks,
+	newCafeRecordName,
+	priceRecordToSave,
+	validateDrinks,
+	type CafeCandidate
+} from './contribute';
+import { WorkerError } from './worker';
+
+const newCafe: CafeCandidate = {
+	recordName: null,
+	name: 'Café Lehel',
+	address: 'Thierschstraße 1, 80538 München',
+	latitude: 48.1374,
+	longitude: 11.5855
+};
+
+describe('newCafeRecordName', () => {
+	it('matches the record names the iOS app creates', () => {
+		expect(newCafeRecordName(newCafe)).toBe('48.1374_11.5855_Café_Lehel');
+	});
+});
+
+describe('cleanDrinks', () => {
+	it('trims names, rounds to cents and drops empty rows', () => {
+		expect(
+			cleanDrinks([
+				{ name: ' Espresso ', price: 2.499 },
+				{ name: '', price: null },
+				{ name: 'Cappuccino', price: null }
+			])
+		).toEqual([
+			{ name: 'Espresso', price: 2.5 },
+			{ name: 'Cappuccino', price: NaN }
+		]);
+	});
+});
+
+describe('validateDrinks', () => {
+	it('accepts a plausible espresso price', () => {
+		expect(validateDrinks([{ name: 'Espresso', price: 2.4 }, { name: 'Latte', price: 3.9 }])).toBeNull();
+	});
+
+	it('requires a name and a price for every drink', () => {
+		expect(validateDrinks([{ name: 'Espresso', price: 2.4 }, { name: 'Latte', price: NaN }])).toMatch(/name and a price/);
+	});
+
+	it('requires an espresso price', () => {
+		expect(validateDrinks([{ name: 'Doppio', price: 3.2 }])).toMatch(/espresso price/);
+	});
+
+	it('rejects implausible espresso prices', () => {
+		expect(validateDrinks([{ name: 'Espresso', price: 0.2 }])).toMatch(/too low/);
+		expect(validateDrinks([{ name: 'Espresso', price: 25 }])).toMatch(/too high/);
+	});
+});
+
+describe('cafeRecordToSave', () => {
+	it('creates a new cafe with typed coordinates and price', () => {
+		const record = cafeRecordToSave(newCafe, 2, null);
+
+		expect(record.recordName).toBe('48.1374_11.5855_Café_Lehel');
+		expect(record.recordChangeTag).toBeUndefined();
+		expect(record.fields).toMatchObject({
+			cafeId: { value: '48.1374_11.5855_Café_Lehel' },
+			name: { value: 'Café Lehel' },
+			latitude: { value: 48.1374, type: 'DOUBLE' },
+			currentPrice: { value: 2, type: 'DOUBLE' }
+		});
+	});
+
+	it('only updates the current price of an existing cafe', () => {
+		const existing = { recordName: 'cafe-1', recordType: 'Cafe', recordChangeTag: 'tag-7', fields: {} };
+		const record = cafeRecordToSave({ ...newCafe, recordName: 'cafe-1' }, 2.6, existing);
+
+		expect(record).toEqual({
+			recordName: 'cafe-1',
+			recordType: 'Cafe',
+			recordChangeTag: 'tag-7',
+			fields: { currentPrice: { value: 2.6, type: 'DOUBLE' } }
+		});
+	});
+});
+
+describe('priceRecordToSave', () => {
+	const input = {
+		cafeRecordName: 'cafe-1',
+		drinks: [{ name: 'Espresso', price: 2.4 }],
+		note: '  ',
+		addedBy: '_user',
+		addedByName: 'Timo',
+		date: new Date('2026-03-01T10:00:00Z'),
+		recordName: 'PRICE-1'
+	};
+
+	it('references the cafe and stores drinks as JSON', () => {
+		const record = priceRecordToSave(input);
+
+		expect(record).toEqual({
+			recordName: 'PRICE-1',
+			recordType: 'PriceRecord',
+			fields: {
+				date: { value: Date.parse('2026-03-01T10:00:00Z'), type: 'TIMESTAMP' },
+				addedBy: { value: '_user' },
+				addedByName: { value: 'Timo' },
+				cafeReference: { value: { recordName: 'cafe-1', action: 'DELETE_SELF' }, type: 'REFERENCE' },
+				drinksJSON: { value: '[{"name":"Espresso","price":2.4}]' }
+			}
+		});
+	});
+
+	it('adds the note and menu image when given', () => {
+		const menuImage = new Blob(['jpeg'], { type: 'image/jpeg' });
+		const record = priceRecordToSave({ ...input, note: ' Oat milk +0.50 ', menuImage });
+
+		expect(record.fields.note).toEqual({ value: 'Oat milk +0.50' });
+		expect(record.fields.menuImage).toEqual({ value: menuImage, type: 'ASSET' });
+	});
+
+	it('generates an uppercase UUID record name', () => {
+		const { recordName } = priceRecordToSave({ ...input, recordName: undefined });
+		expect(recordName).toMatch(/^[0-9A-F-]{36}$/);
+	});
+});
+
+describe('extractDrinks', () => {
+	const image = new Blob(['jpeg'], { type: 'image/jpeg' });
+
+	function stubFetch(status: number, body: unknown) {
+		const requests: Request[] = [];
+		const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+			requests.push(new Request(input, init));
+			return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+		};
+		return { fetch, requests };
+	}
+
+	it('uploads the photo with the identity token and returns the drinks', async () => {
+		const { fetch, requests } = stubFetch(200, {
+			success: true,
+			drinks: [{ name: 'Espresso', price: 2.4 }],
+			items: []
+		});
+
+		const drinks = await extractDrinks(image, { workerUrl: 'https://worker.test', identityToken: 'token', fetch });
+
+		expect(drinks).toEqual([{ name: 'Espresso', price: 2.4 }]);
+		expect(requests[0].url).toBe('https://worker.test/v1/extract');
+		expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+		expect((await requests[0].formData()).get('image')).toBeInstanceOf(Blob);
+	});
+
+	it('surfaces the worker error message and code', async () => {
+		const { fetch } = stubFetch(429, {
+			error: 'Rate limit exceeded',
+			code: 'RATE_LIMITED',
+			message: 'Daily limit reached. Please try again tomorrow.'
+		});
+
+		const error = await extractDrinks(image, { workerUrl: 'https://worker.test', identityToken: 'token', fetch }).catch(
+			(e: unknown) => e
+		);
+
+		expect(error).toBeInstanceOf(WorkerError);
+		expect(error).toMatchObject({
+			message: 'Daily limit reached. Please try again tomorrow.',
+			status: 429,
+			code: 'RATE_LIMITED'
+		});
+	});
+
+	it('rejects an unexpected response body', async () => {
+		const { fetch } = stubFetch(200, { drinks: 'none' });
+
+		await expect(extractDrinks(image, { workerUrl: 'https://worker.test', identityToken: 'token', fetch })).rejects.toThrow(
+			'Unexpected response from /v1/extract'
+		);
+	});
+});
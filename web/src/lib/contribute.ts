@@ -0,0 +1,175 @@
+import { z } from 'zod/v4';
+import { drinkPriceSchema } from './records';
+import { workerRequest } from './worker';
+import { findEspressoPrice, type DrinkPrice } from './types';
+
+/** Valid espresso price range in euros, same as `PriceRecord.validate` in the iOS app */
+export const MIN_ESPRESSO_PRICE = 0.5;
+export const MAX_ESPRESSO_PRICE = 15;
+
+/** A cafe to add prices for, either loaded from CloudKit or picked from a MapKit search */
+export interface CafeCandidate {
+	/** Record name, or null for a cafe that is not in CloudKit yet */
+	recordName: string | null;
+	name: string;
+	address: string;
+	latitude: number;
+	longitude: number;
+}
+
+/**
+ * Record name for a new cafe, built like `CafeSearchService` in the iOS app so a
+ * cafe added on the web and later found in the app resolves to the same record.
+ */
+export function newCafeRecordName(cafe: Pick<CafeCandidate, 'name' | 'latitude' | 'longitude'>): string {
+	return `${cafe.latitude}_${cafe.longitude}_${cafe.name}`.replaceAll(' ', '_');
+}
+
+/** A drink in the review form; the price is null while its field is empty */
+export interface EditableDrink {
+	name: string;
+	price: number | null;
+}
+
+/** Trim names, round prices to cents and drop rows left completely empty */
+export function cleanDrinks(drinks: EditableDrink[]): DrinkPrice[] {
+	return drinks
+		.filter((d) => d.name.trim() !== '' || d.price !== null)
+		.map((d) => ({ name: d.name.trim(), price: d.price === null ? NaN : Math.round(d.price * 100) / 100 }));
+}
+
+/**
+ * Check reviewed drinks before saving, with the same rules as `addOrUpdateCafe`
+ * in the iOS app: the espresso price is required and must be plausible.
+ * Returns an error message, or null if the drinks can be saved.
+ */
+export function validateDrinks(drinks: DrinkPrice[]): string | null {
+	if (drinks.some((d) => d.name === '' || !Number.isFinite(d.price) || d.price <= 0)) {
+		return 'Every drink needs a name and a price.';
+	}
+
+	const espressoPrice = findEspressoPrice(drinks);
+	if (espressoPrice === null) return 'Please add the espresso price.';
+	if (espressoPrice < MIN_ESPRESSO_PRICE) return 'Price seems too low. Espresso prices are typically at least €0.50.';
+	if (espressoPrice > MAX_ESPRESSO_PRICE) return 'Price seems too high. Please check the price and try again.';
+	return null;
+}
+
+/**
+ * The cafe record to save: a new record for a new cafe, otherwise an update of
+ * `currentPrice` only. Numbers are typed explicitly, as CloudKit JS would save
+ * whole numbers as INT64.
+ */
+export function cafeRecordToSave(
+	cafe: CafeCandidate,
+	espressoPrice: number,
+	existing: CloudKit.CKRecord | null
+): CloudKit.RecordToSave {
+	const currentPrice = { value: espressoPrice, type: 'DOUBLE' };
+
+	if (existing) {
+		return {
+			recordName: existing.recordName,
+			recordType: 'Cafe',
+			recordChangeTag: existing.recordChangeTag,
+			fields: { currentPrice }
+		};
+	}
+
+	const recordName = cafe.recordName ?? newCafeRecordName(cafe);
+	return {
+		recordName,
+		recordType: 'Cafe',
+		fields: {
+			cafeId: { value: recordName },
+			name: { value: cafe.name },
+			address: { value: cafe.address },
+			latitude: { value: cafe.latitude, type: 'DOUBLE' },
+			longitude: { value: cafe.longitude, type: 'DOUBLE' },
+			currentPrice
+		}
+	};
+}
+
+export interface PriceRecordInput {
+	cafeRecordName: string;
+	drinks: DrinkPrice[];
+	note: string;
+	/** CloudKit user record name of the contributor */
+	addedBy: string;
+	addedByName: string;
+	menuImage?: Blob | null;
+	date?: Date;
+	/** Defaults to a new uppercase UUID, like the iOS app's record IDs */
+	recordName?: string;
+}
+
+export function priceRecordToSave(input: PriceRecordInput): CloudKit.RecordToSave {
+	const fields: Record<string, CloudKit.RecordField> = {
+		date: { value: (input.date ?? new Date()).getTime(), type: 'TIMESTAMP' },
+		addedBy: { value: input.addedBy },
+		addedByName: { value: input.addedByName },
+		// Deleting the cafe deletes its price records, as in the iOS app
+		cafeReference: { value: { recordName: input.cafeRecordName, action: 'DELETE_SELF' }, type: 'REFERENCE' },
+		drinksJSON: { value: JSON.stringify(input.drinks) }
+	};
+
+	const note = input.note.trim();
+	if (note) fields.note = { value: note };
+	// CloudKit JS uploads a Blob assigned to an asset field
+	if (input.menuImage) fields.menuImage = { value: input.menuImage, type: 'ASSET' };
+
+	return {
+		recordName: input.recordName ?? crypto.randomUUID().toUpperCase(),
+		recordType: 'PriceRecord',
+		fields
+	};
+}
+
+/** The part of the worker's extraction response the review step needs */
+const extractionResponseSchema = z.object({
+	drinks: z.array(drinkPriceSchema)
+});
+
+export interface ExtractOptions {
+	workerUrl: string;
+	/** Sign in with Apple identity token */
+	identityToken: string;
+	fetch?: typeof fetch;
+}
+
+/** Send a menu photo to the price extraction worker and return the drinks it found */
+export async function extractDrinks(image: Blob, options: ExtractOptions): Promise<DrinkPrice[]> {
+	const body = new FormData();
+	body.append('image', image, 'menu.jpg');
+
+	const { drinks } = await workerRequest('/v1/extract', extractionResponseSchema, { ...options, method: 'POST', body });
+	return drinks;
+}
+
+/** Longest edge of uploaded menu photos, keeping phone photos well under the worker's 5 MB limit */
+const MAX_IMAGE_DIMENSION = 2048;
+
+/**
+ * Downscale a photo and re-encode it as JPEG in the browser, like the iOS app
+ * compresses photos before upload. Returns the original file if the browser
+ * can't decode it.
+ */
+export async function prepareMenuImage(file: File): Promise<Blob> {
+	let bitmap: ImageBitmap;
+	try {
+		bitmap = await createImageBitmap(file);
+	} catch {
+		return file;
+	}
+
+	const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(bitmap.width * scale);
+	canvas.height = Math.round(bitmap.height * scale);
+	canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+	bitmap.close();
+
+	const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+	return blob ?? file;
+}
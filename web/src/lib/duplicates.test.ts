@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateCafes, normalizeAddress, normalizeCafeName, textSimilarity } from './duplicates';
+import type { Cafe } from './types';
+
+function cafe(recordName: string, name: string, address: string, latitude: number, longitude: number): Cafe {
+	return { id: recordName, recordName, cafeId: recordName, name, address, latitude, longitude, currentPrice: null };
+}
+
+// Same shop added from Apple Maps and from a Google Maps share, ~20 m apart
+const fromApp = cafe('48.1374_11.5855_Café_Lehel', 'Café Lehel', 'Thierschstraße 1, 80538 München', 48.1374, 11.5855);
+const fromGoogle = cafe('ChIJ-lehel', 'Lehel Kaffee', 'Thierschstr. 1, 80538 München, Germany', 48.13755, 11.58565);
+
+describe('normalizeCafeName', () => {
+	it('drops accents, punctuation and generic words', () => {
+		expect(normalizeCafeName('Café Lehel')).toBe('lehel');
+		expect(normalizeCafeName('The Coffee & Bar Co.')).toBe('co');
+		expect(normalizeCafeName('Espresso Bar')).toBe('espresso bar');
+	});
+});
+
+describe('normalizeAddress', () => {
+	it('spells street suffixes one way and drops the country', () => {
+		expect(normalizeAddress('Thierschstraße 1, 80538 München, Germany')).toBe('thierschstr 1 80538 munchen');
+		expect(normalizeAddress('Thierschstr. 1, 80538 München')).toBe('thierschstr 1 80538 munchen');
+	});
+});
+
+describe('textSimilarity', () => {
+	it('is 1 for equal text and 0 for unrelated text', () => {
+		expect(textSimilarity('lehel', 'lehel')).toBe(1);
+		expect(textSimilarity('lehel', 'xyz')).toBe(0);
+		expect(textSimilarity('', '')).toBe(0);
+	});
+});
+
+describe('findDuplicateCafes', () => {
+	it('proposes the same shop added from two map providers', () => {
+		const [candidate, ...rest] = findDuplicateCafes([fromApp, fromGoogle]);
+
+		expect(rest).toEqual([]);
+		expect(candidate.distanceMeters).toBeLessThan(25);
+		expect(candidate.nameSimilarity).toBe(1);
+		expect(candidate.addressSimilarity).toBe(1);
+	});
+
+	it('keeps the cafe with more price records', () => {
+		const counts = new Map([
+			[fromApp.recordName, 1],
+			[fromGoogle.recordName, 4]
+		]);
+
+		expect(findDuplicateCafes([fromApp, fromGoogle], counts)[0]).toMatchObject({ keep: fromGoogle, duplicate: fromApp });
+	});
+
+	it('accepts a weaker name match at the same address', () => {
+		const renamed = cafe('renamed', 'Lehelino', 'Thierschstraße 1, 80538 München', 48.1375, 11.5856);
+
+		expect(findDuplicateCafes([fromApp, renamed])).toHaveLength(1);
+	});
+
+	it('ignores different shops next door and the same name further away', () => {
+		const neighbour = cafe('neighbour', 'Bäckerei Zöttl', 'Thierschstraße 3, 80538 München', 48.1375, 11.5856);
+		const elsewhere = cafe('elsewhere', 'Café Lehel', 'Leopoldstraße 50, 80802 München', 48.1594, 11.5855);
+
+		expect(findDuplicateCafes([fromApp, neighbour, elsewhere])).toEqual([]);
+	});
+
+	it('finds pairs across grid cell borders', () => {
+		const west = cafe('west', 'Man vs Machine', 'Müllerstraße 23', 48.1329999, 11.5699999);
+		const east = cafe('east', 'Man versus Machine Coffee', 'Müllerstraße 23', 48.1330001, 11.5700001);
+
+		expect(findDuplicateCafes([west, east])).toHaveLength(1);
+	});
+});
@@ -0,0 +1,174 @@
+import { normalizeDrinkText } from 'shared/drinks';
+import { haversineDistance } from './geo';
+import type { Cafe } from './types';
+
+/** Cafes further apart than this are never proposed as duplicates */
+export const MAX_DUPLICATE_DISTANCE_METERS = 100;
+/** Name similarity that is enough on its own */
+const NAME_MATCH = 0.7;
+/** Weaker name similarity that still counts when the addresses agree */
+const PARTIAL_NAME_MATCH = 0.4;
+const ADDRESS_MATCH = 0.8;
+
+/** Words that say what kind of place it is rather than which one, e.g. "Café" in "Café Lehel" */
+const GENERIC_NAME_WORDS = new Set([
+	'cafe',
+	'caffe',
+	'kaffee',
+	'kaffeehaus',
+	'coffee',
+	'coffeeshop',
+	'espresso',
+	'espressobar',
+	'bar',
+	'bistro',
+	'roasters',
+	'rosterei',
+	'and',
+	'und',
+	'the',
+	'das',
+	'der',
+	'die',
+	'gmbh'
+]);
+
+/** Country names Google Maps appends to addresses, which Apple Maps leaves out */
+const ADDRESS_NOISE_WORDS = new Set(['germany', 'deutschland', 'austria', 'osterreich', 'switzerland', 'schweiz']);
+
+/** Two cafes that are likely the same shop */
+export interface DuplicateCandidate {
+	/** The cafe to keep: the one with more price records, then the one with a current price */
+	keep: Cafe;
+	duplicate: Cafe;
+	distanceMeters: number;
+	/** 0 to 1 */
+	nameSimilarity: number;
+	/** 0 to 1 */
+	addressSimilarity: number;
+	/** Higher is more likely a duplicate, for sorting */
+	score: number;
+}
+
+export function normalizeCafeName(name: string): string {
+	const words = normalizeDrinkText(name).split(' ').filter(Boolean);
+	const specific = words.filter((word) => !GENERIC_NAME_WORDS.has(word));
+	// A cafe called just "Espresso Bar" keeps its words
+	return (specific.length > 0 ? specific : words).join(' ');
+}
+
+/** Spell street suffixes one way and drop the country, so "Thierschstr. 1" matches "Thierschstraße 1" */
+export function normalizeAddress(address: string): string {
+	return normalizeDrinkText(address)
+		.replace(/(str|strasse)\b/g, 'str')
+		.split(' ')
+		.filter((word) => word && !ADDRESS_NOISE_WORDS.has(word))
+		.join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+	const counts = new Map<string, number>();
+	const compact = text.replace(/ /g, '');
+	for (let i = 0; i < compact.length - 1; i++) {
+		const bigram = compact.slice(i, i + 2);
+		counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/** Sørensen–Dice coefficient over character bigrams, 0 to 1 */
+export function textSimilarity(a: string, b: string): number {
+	if (a === b) return a === '' ? 0 : 1;
+
+	const first = bigrams(a);
+	const second = bigrams(b);
+	let total = 0;
+	let shared = 0;
+	for (const count of first.values()) total += count;
+	for (const [bigram, count] of second) {
+		total += count;
+		shared += Math.min(count, first.get(bigram) ?? 0);
+	}
+	return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function nameSimilarity(a: string, b: string): number {
+	const similarity = textSimilarity(a, b);
+	// "Lehel" and "Lehel Schwabing" name the same place more often than the bigrams suggest
+	const contained = a.length >= 4 && b.length >= 4 && (a.includes(b) || b.includes(a));
+	return contained ? Math.max(similarity, NAME_MATCH) : similarity;
+}
+
+/** Grid cells of about 110 m, so only nearby cafes are compared */
+const CELL_DEGREES = 0.001;
+
+function cellKey(latCell: number, lngCell: number): string {
+	return `${latCell}:${lngCell}`;
+}
+
+/** Keep the cafe with more history, so fewer records have to move */
+function orderPair(a: Cafe, b: Cafe, priceRecordCounts: Map<string, number>): [Cafe, Cafe] {
+	const byCount = (priceRecordCounts.get(b.recordName) ?? 0) - (priceRecordCounts.get(a.recordName) ?? 0);
+	const byPrice = Number(b.currentPrice !== null) - Number(a.currentPrice !== null);
+	const order = byCount || byPrice || a.recordName.localeCompare(b.recordName);
+	return order <= 0 ? [a, b] : [b, a];
+}
+
+/**
+ * Propose pairs of cafes that are probably the same shop, added twice from
+ * different map providers: close together and with a similar name, or a
+ * vaguely similar name at the same address. Most likely duplicates first.
+ * `priceRecordCounts` (by cafe record name) decides which cafe to keep.
+ */
+export function findDuplicateCafes(
+	cafes: Cafe[],
+	priceRecordCounts: Map<string, number> = new Map()
+): DuplicateCandidate[] {
+	const cells = new Map<string, Cafe[]>();
+	const normalized = new Map<string, { name: string; address: string }>();
+	for (const cafe of cafes) {
+		const key = cellKey(Math.floor(cafe.latitude / CELL_DEGREES), Math.floor(cafe.longitude / CELL_DEGREES));
+		cells.set(key, [...(cells.get(key) ?? []), cafe]);
+		normalized.set(cafe.recordName, { name: normalizeCafeName(cafe.name), address: normalizeAddress(cafe.address) });
+	}
+
+	// Longitude cells shrink towards the poles; widen the search so 100 m is always covered
+	const latSpan = Math.ceil(MAX_DUPLICATE_DISTANCE_METERS / 111_000 / CELL_DEGREES);
+
+	const candidates: DuplicateCandidate[] = [];
+	for (const cafe of cafes) {
+		const latCell = Math.floor(cafe.latitude / CELL_DEGREES);
+		const lngCell = Math.floor(cafe.longitude / CELL_DEGREES);
+		const lngSpan = Math.ceil(latSpan / Math.max(Math.cos((cafe.latitude * Math.PI) / 180), 0.01));
+
+		for (let dLat = -latSpan; dLat <= latSpan; dLat++) {
+			for (let dLng = -lngSpan; dLng <= lngSpan; dLng++) {
+				for (const other of cells.get(cellKey(latCell + dLat, lngCell + dLng)) ?? []) {
+					// Each pair once
+					if (other.recordName <= cafe.recordName) continue;
+
+					const distanceMeters = haversineDistance(cafe, other);
+					if (distanceMeters > MAX_DUPLICATE_DISTANCE_METERS) continue;
+
+					const a = normalized.get(cafe.recordName)!;
+					const b = normalized.get(other.recordName)!;
+					const names = nameSimilarity(a.name, b.name);
+					const addresses = textSimilarity(a.address, b.address);
+					if (names < NAME_MATCH && !(names >= PARTIAL_NAME_MATCH && addresses >= ADDRESS_MATCH)) continue;
+
+					const [keep, duplicate] = orderPair(cafe, other, priceRecordCounts);
+					candidates.push({
+						keep,
+						duplicate,
+						distanceMeters,
+						nameSimilarity: names,
+						addressSimilarity: addresses,
+						score: 0.6 * names + 0.3 * addresses + 0.1 * (1 - distanceMeters / MAX_DUPLICATE_DISTANCE_METERS)
+					});
+				}
+			}
+		}
+	}
+
+	return candidates.sort((a, b) => b.score - a.score);
+}
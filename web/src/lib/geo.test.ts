@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { haversineDistance, nearest, withinRadius, cheapestWithinRadius, formatDistance } from './geo';
+
+const marienplatz = { latitude: 48.1374, longitude: 11.5755 };
+
+const cafes = [
+	{ id: 'near', latitude: 48.1384, longitude: 11.5755, price: 2.8 }, // ~110 m north
+	{ id: 'mid', latitude: 48.1464, longitude: 11.5755, price: 2.2 }, // ~1 km north
+	{ id: 'far', latitude: 48.1824, longitude: 11.5755, price: 1.9 }, // ~5 km north
+	{ id: 'unpriced', latitude: 48.1374, longitude: 11.5775, price: null } // ~150 m east
+];
+
+describe('haversineDistance', () => {
+	it('returns 0 for the same point', () => {
+		expect(haversineDistance(marienplatz, marienplatz)).toBe(0);
+	});
+
+	it('matches the known Munich–Berlin distance', () => {
+		const berlin = { latitude: 52.52, longitude: 13.405 };
+		expect(haversineDistance(marienplatz, berlin) / 1000).toBeCloseTo(504, 0);
+	});
+
+	it('is symmetric', () => {
+		const berlin = { latitude: 52.52, longitude: 13.405 };
+		expect(haversineDistance(marienplatz, berlin)).toBeCloseTo(haversineDistance(berlin, marienplatz), 6);
+	});
+});
+
+describe('nearest', () => {
+	it('returns the N closest items with their distance', () => {
+		const result = nearest(marienplatz, cafes, 2);
+		expect(result.map((c) => c.id)).toEqual(['near', 'unpriced']);
+		expect(result[0].distance).toBeCloseTo(111, 0);
+	});
+});
+
+describe('withinRadius', () => {
+	it('excludes items beyond the radius', () => {
+		expect(withinRadius(marienplatz, cafes, 1500).map((c) => c.id)).toEqual(['near', 'unpriced', 'mid']);
+	});
+});
+
+describe('cheapestWithinRadius', () => {
+	it('sorts priced items in the radius by price and skips unpriced ones', () => {
+		const result = cheapestWithinRadius(marienplatz, cafes, 1500, (c) => c.price);
+		expect(result.map((c) => c.id)).toEqual(['mid', 'near']);
+	});
+
+	it('breaks price ties by distance', () => {
+		const tied = cafes.map((c) => ({ ...c, price: 2.5 }));
+		const result = cheapestWithinRadius(marienplatz, tied, 1500, (c) => c.price);
+		expect(result.map((c) => c.id)).toEqual(['near', 'unpriced', 'mid']);
+	});
+});
+
+describe('formatDistance', () => {
+	it('uses meters below 1 km and kilometers above', () => {
+		expect(formatDistance(234)).toBe('230 m');
+		expect(formatDistance(1540)).toBe('1.5 km');
+		expect(formatDistance(12_400)).toBe('12 km');
+	});
+});
@@ -0,0 +1,63 @@
+/** Mean Earth radius in meters */
+const EARTH_RADIUS_METERS = 6_371_000;
+
+export interface LatLng {
+	latitude: number;
+	longitude: number;
+}
+
+function toRadians(degrees: number): number {
+	return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points in meters (haversine formula) */
+export function haversineDistance(from: LatLng, to: LatLng): number {
+	const dLat = toRadians(to.latitude - from.latitude);
+	const dLng = toRadians(to.longitude - from.longitude);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+	return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatDistance(meters: number): string {
+	if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+	return `${(meters / 1000).toFixed(meters < 10_000 ? 1 : 0)} km`;
+}
+
+export type WithDistance<T> = T & { distance: number };
+
+/** Items sorted by distance from the origin, nearest first */
+export function sortByDistance<T extends LatLng>(origin: LatLng, items: T[]): WithDistance<T>[] {
+	return items
+		.map((item) => ({ ...item, distance: haversineDistance(origin, item) }))
+		.sort((a, b) => a.distance - b.distance);
+}
+
+/** The `count` items nearest to the origin */
+export function nearest<T extends LatLng>(origin: LatLng, items: T[], count: number): WithDistance<T>[] {
+	return sortByDistance(origin, items).slice(0, count);
+}
+
+/** Items within `radiusMeters` of the origin, nearest first */
+export function withinRadius<T extends LatLng>(origin: LatLng, items: T[], radiusMeters: number): WithDistance<T>[] {
+	return sortByDistance(origin, items).filter((item) => item.distance <= radiusMeters);
+}
+
+/**
+ * Items within the radius that have a price, cheapest first. Equal prices are
+ * ordered by distance.
+ */
+export function cheapestWithinRadius<T extends LatLng>(
+	origin: LatLng,
+	items: T[],
+	radiusMeters: number,
+	priceOf: (item: T) => number | null
+): WithDistance<T & { price: number }>[] {
+	return withinRadius(origin, items, radiusMeters)
+		.flatMap((item) => {
+			const price = priceOf(item);
+			return price === null ? [] : [{ ...item, price }];
+		})
+		.sort((a, b) => a.price - b.price || a.distance - b.distance);
+}
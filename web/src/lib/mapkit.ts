@@ -1,4 +1,6 @@
-import type { Cafe, DrinkPriceStats } from "./types";
+import type { Cafe, DrinkPriceStats, GeoBounds } from "./types";
+import type { CafeCandidate } from "./contribute";
+import type { LatLng } from "./geo";
 import { getPriceCategoryWithStats, formatPrice } from "./types";
 
 let mapKitInitialized = false;
@@ -164,3 +166,92 @@ export function focusOnCafe(map: mapkit.Map, cafe: Cafe): void {
     new window.mapkit.CoordinateSpan(0.01, 0.01),
   );
 }
+
+export function getRegionBounds(region: mapkit.CoordinateRegion): GeoBounds {
+  const { center, span } = region;
+  return {
+    minLatitude: Math.max(center.latitude - span.latitudeDelta / 2, -90),
+    maxLatitude: Math.min(center.latitude + span.latitudeDelta / 2, 90),
+    minLongitude: Math.max(center.longitude - span.longitudeDelta / 2, -180),
+    maxLongitude: Math.min(center.longitude + span.longitudeDelta / 2, 180),
+  };
+}
+
+// Meters per degree of latitude, close enough for framing the map
+const METERS_PER_DEGREE = 111_320;
+
+export function createRadiusOverlay(
+  center: LatLng,
+  radiusMeters: number,
+): mapkit.CircleOverlay {
+  return new window.mapkit.CircleOverlay(
+    new window.mapkit.Coordinate(center.latitude, center.longitude),
+    radiusMeters,
+    {
+      style: new window.mapkit.Style({
+        strokeColor: "#B87651",
+        strokeOpacity: 0.8,
+        lineWidth: 2,
+        lineDash: [6, 4],
+        fillColor: "#B87651",
+        fillOpacity: 0.08,
+      }),
+    },
+  );
+}
+
+/** Fit the map to a circle around the center, with a little margin */
+export function focusOnRadius(
+  map: mapkit.Map,
+  center: LatLng,
+  radiusMeters: number,
+): void {
+  const latitudeDelta = ((radiusMeters * 2) / METERS_PER_DEGREE) * 1.2;
+  const longitudeDelta =
+    latitudeDelta / Math.cos((center.latitude * Math.PI) / 180);
+  map.region = new window.mapkit.CoordinateRegion(
+    new window.mapkit.Coordinate(center.latitude, center.longitude),
+    new window.mapkit.CoordinateSpan(latitudeDelta, longitudeDelta),
+  );
+}
+
+/**
+ * Search MapKit points of interest for cafes matching the query, like
+ * `CafeSearchService.searchCafes` in the iOS app. The results are not in
+ * CloudKit yet, so they have no record name.
+ */
+export function searchCafes(
+  query: string,
+  near: LatLng | null = null,
+): Promise<CafeCandidate[]> {
+  const search = new window.mapkit.Search({
+    language: "de",
+    includePointsOfInterest: true,
+    includeAddresses: false,
+  });
+  const coordinate = near
+    ? new window.mapkit.Coordinate(near.latitude, near.longitude)
+    : undefined;
+
+  return new Promise((resolve, reject) => {
+    search.search(
+      `${query} cafe`,
+      (error, data) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(
+          data.places.map((place) => ({
+            recordName: null,
+            name: place.name,
+            address: place.formattedAddress ?? "",
+            latitude: place.coordinate.latitude,
+            longitude: place.coordinate.longitude,
+          })),
+        );
+      },
+      { coordinate },
+    );
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+	fetchHiddenRecordNames,
+	fetchHiddenRecordNamesOrNone,
+	fetchReportEntries,
+	setRecordHidden,
+	submitReport,
+	withHiddenRecord,
+	withoutHidden
+} from './moderation';
+import type { PriceRecord } from './types';
+import { WorkerError } from './worker';
+
+function record(recordName: string): PriceRecord {
+	return {
+		id: recordName,
+		recordName,
+		drinks: [{ name: 'Espresso', price: 2.4 }],
+		date: new Date('2026-03-01T10:00:00Z'),
+		addedBy: '_user',
+		addedByName: 'Timo',
+		note: null,
+		menuImageUrl: null,
+		cafeRecordName: 'cafe-1'
+	};
+}
+
+function stubFetch(status: number, body: unknown) {
+	const requests: Request[] = [];
+	const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+		requests.push(new Request(input, init));
+		return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+	};
+	return { fetch, requests };
+}
+
+describe('withoutHidden', () => {
+	it('drops hidden records and keeps the order of the rest', () => {
+		const records = [record('price-1'), record('price-2'), record('price-3')];
+
+		expect(withoutHidden(records, new Set(['price-2'])).map((r) => r.recordName)).toEqual(['price-1', 'price-3']);
+		expect(withoutHidden(records, new Set())).toBe(records);
+	});
+});
+
+describe('withHiddenRecord', () => {
+	it('drops a record as soon as a report hides it', async () => {
+		const records = [record('price-1'), record('price-2')];
+		const hidden = new Set<string>();
+		const { fetch } = stubFetch(201, { recordName: 'price-2', reportCount: 3, hidden: true });
+
+		const outcome = await submitReport(
+			{ recordName: 'price-2', cafeRecordName: 'cafe-1', reason: 'wrong_price' },
+			{ workerUrl: 'https://worker.test', identityToken: 'token', fetch }
+		);
+		const next = outcome.hidden ? withHiddenRecord(hidden, outcome.recordName) : hidden;
+
+		expect(next).not.toBe(hidden);
+		expect(hidden.size).toBe(0);
+		expect(withoutHidden(records, next).map((r) => r.recordName)).toEqual(['price-1']);
+	});
+});
+
+describe('submitReport', () => {
+	it('posts the report as JSON with the identity token', async () => {
+		const { fetch, requests } = stubFetch(201, { recordName: 'price-1', reportCount: 3, hidden: true });
+
+		const outcome = await submitReport(
+			{ recordName: 'price-1', cafeRecordName: 'cafe-1', reason: 'wrong_price' },
+			{ workerUrl: 'https://worker.test', identityToken: 'token', fetch }
+		);
+
+		expect(outcome).toEqual({ recordName: 'price-1', reportCount: 3, hidden: true });
+		expect(requests[0].method).toBe('POST');
+		expect(requests[0].url).toBe('https://worker.test/v1/reports');
+		expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+		expect(await requests[0].json()).toEqual({ recordName: 'price-1', cafeRecordName: 'cafe-1', reason: 'wrong_price' });
+	});
+});
+
+describe('fetchHiddenRecordNames', () => {
+	it('returns the hidden record names as a set', async () => {
+		const { fetch } = stubFetch(200, { recordNames: ['price-1', 'price-2'] });
+
+		expect(await fetchHiddenRecordNames({ workerUrl: 'https://worker.test', fetch })).toEqual(new Set(['price-1', 'price-2']));
+	});
+
+	it('throws on worker errors, unless hiding nothing is acceptable', async () => {
+		const { fetch } = stubFetch(503, { error: 'Service unavailable', code: 'SERVICE_UNAVAILABLE' });
+
+		await expect(fetchHiddenRecordNames({ workerUrl: 'https://worker.test', fetch })).rejects.toBeInstanceOf(WorkerError);
+		expect(await fetchHiddenRecordNamesOrNone({ workerUrl: 'https://worker.test', fetch })).toEqual(new Set());
+	});
+});
+
+describe('moderator requests', () => {
+	const entry = { recordName: 'price-1', cafeRecordName: 'cafe-1', reports: [], hidden: true, hiddenAt: 1000 };
+
+	it('hides and restores records with the identity token', async () => {
+		const { fetch, requests } = stubFetch(200, { entry });
+		const options = { workerUrl: 'https://worker.test', identityToken: 'token', fetch };
+
+		expect(await setRecordHidden(record('price-1'), true, options)).toEqual(entry);
+		await setRecordHidden(record('price-1'), false, options);
+
+		expect(requests.map((request) => request.url)).toEqual([
+			'https://worker.test/v1/admin/records/hide',
+			'https://worker.test/v1/admin/records/restore'
+		]);
+		expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+		expect(await requests[0].json()).toEqual({ recordName: 'price-1', cafeRecordName: 'cafe-1' });
+	});
+
+	it('fails with a 403 for users who are not moderators', async () => {
+		const { fetch } = stubFetch(403, { error: 'Not allowed', code: 'FORBIDDEN', message: 'This account is not a moderator' });
+
+		await expect(fetchReportEntries({ workerUrl: 'https://worker.test', identityToken: 'token', fetch })).rejects.toMatchObject({
+			status: 403,
+			code: 'FORBIDDEN'
+		});
+	});
+});
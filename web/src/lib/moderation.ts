@@ -0,0 +1,128 @@
+import { z } from 'zod/v4';
+import type { PriceRecord } from './types';
+import { workerRequest } from './worker';
+
+/** Report reasons accepted by the worker's `POST /v1/reports`, with their labels */
+export const REPORT_REASONS = {
+	wrong_price: 'Wrong price',
+	wrong_cafe: 'Wrong cafe',
+	outdated: 'Outdated',
+	not_a_menu: 'Not a menu',
+	spam: 'Spam or abuse',
+	other: 'Something else'
+} as const;
+
+export type ReportReason = keyof typeof REPORT_REASONS;
+
+export interface PriceReport {
+	recordName: string;
+	cafeRecordName: string;
+	reason: ReportReason;
+	comment?: string;
+}
+
+const reportOutcomeSchema = z.object({
+	recordName: z.string(),
+	reportCount: z.number(),
+	hidden: z.boolean()
+});
+
+export type ReportOutcome = z.infer<typeof reportOutcomeSchema>;
+
+const hiddenRecordsSchema = z.object({
+	recordNames: z.array(z.string())
+});
+
+export async function submitReport(
+	report: PriceReport,
+	options: { workerUrl: string; identityToken: string; fetch?: typeof fetch }
+): Promise<ReportOutcome> {
+	return workerRequest('/v1/reports', reportOutcomeSchema, {
+		...options,
+		method: 'POST',
+		body: JSON.stringify(report)
+	});
+}
+
+/** Record names of price records hidden after community reports */
+export async function fetchHiddenRecordNames(options: { workerUrl: string; fetch?: typeof fetch }): Promise<Set<string>> {
+	const { recordNames } = await workerRequest('/v1/reports/hidden', hiddenRecordsSchema, options);
+	return new Set(recordNames);
+}
+
+/**
+ * Like `fetchHiddenRecordNames`, but an unreachable worker hides nothing
+ * instead of failing: prices stay readable when moderation is down.
+ */
+export async function fetchHiddenRecordNamesOrNone(options: {
+	workerUrl: string;
+	fetch?: typeof fetch;
+}): Promise<Set<string>> {
+	try {
+		return await fetchHiddenRecordNames(options);
+	} catch (error) {
+		console.error('Failed to load hidden price records:', error);
+		return new Set();
+	}
+}
+
+const reportEntrySchema = z.object({
+	recordName: z.string(),
+	cafeRecordName: z.string().optional(),
+	reports: z.array(
+		z.object({
+			userId: z.string(),
+			reason: z.enum(Object.keys(REPORT_REASONS) as [ReportReason, ...ReportReason[]]),
+			comment: z.string().optional(),
+			createdAt: z.number()
+		})
+	),
+	hidden: z.boolean(),
+	hiddenAt: z.number().optional(),
+	restoredAt: z.number().optional()
+});
+
+/** Reports on a price record and whether it is hidden, as moderators see it */
+export type ReportEntry = z.infer<typeof reportEntrySchema>;
+
+export interface ModeratorOptions {
+	workerUrl: string;
+	/** Identity token of a user on the worker's `ADMIN_USER_IDS` allowlist */
+	identityToken: string;
+	fetch?: typeof fetch;
+}
+
+/** Every reported or moderated record, most recent activity first. Fails with a 403 `WorkerError` for non-moderators. */
+export async function fetchReportEntries(options: ModeratorOptions): Promise<ReportEntry[]> {
+	const { entries } = await workerRequest('/v1/admin/reports', z.object({ entries: z.array(reportEntrySchema) }), options);
+	return entries;
+}
+
+/** Hide a price record, or restore a hidden one */
+export async function setRecordHidden(
+	record: Pick<PriceRecord, 'recordName' | 'cafeRecordName'>,
+	hidden: boolean,
+	options: ModeratorOptions
+): Promise<ReportEntry> {
+	const { entry } = await workerRequest(
+		hidden ? '/v1/admin/records/hide' : '/v1/admin/records/restore',
+		z.object({ entry: reportEntrySchema }),
+		{
+			...options,
+			method: 'POST',
+			body: JSON.stringify({ recordName: record.recordName, cafeRecordName: record.cafeRecordName })
+		}
+	);
+	return entry;
+}
+
+/** The hidden record names plus one more, as a new set so Svelte state picks up the change */
+export function withHiddenRecord(hidden: Set<string>, recordName: string): Set<string> {
+	return new Set(hidden).add(recordName);
+}
+
+/** Records without the hidden ones, so they never count as a cafe's current price or in stats */
+export function withoutHidden(records: PriceRecord[], hidden: Set<string>): PriceRecord[] {
+	if (hidden.size === 0) return records;
+	return records.filter((record) => !hidden.has(record.recordName));
+}
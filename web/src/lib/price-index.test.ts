@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { buildPriceIndex, monthRange, nextMonth, rebaseIndex } from './price-index';
+import type { PriceRecord } from './types';
+
+function espressoAt(cafeRecordName: string, date: string, price: number): PriceRecord {
+	return {
+		id: `${cafeRecordName}-${date}`,
+		recordName: `${cafeRecordName}-${date}`,
+		drinks: [
+			{ name: 'Espresso', price },
+			{ name: 'Cappuccino', price: price + 1.5 }
+		],
+		date: new Date(date),
+		addedBy: '_user',
+		addedByName: 'Timo',
+		note: null,
+		menuImageUrl: null,
+		cafeRecordName
+	};
+}
+
+describe('nextMonth and monthRange', () => {
+	it('rolls over the year', () => {
+		expect(nextMonth('2025-12')).toBe('2026-01');
+		expect(monthRange('2025-11', '2026-02')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+	});
+});
+
+describe('buildPriceIndex', () => {
+	it('is empty without prices for the drink', () => {
+		expect(buildPriceIndex([espressoAt('a', '2025-01-10', 2.5)], 'Flat White')).toEqual([]);
+	});
+
+	it('chains the geometric mean of price relatives', () => {
+		const points = buildPriceIndex(
+			[
+				espressoAt('a', '2025-01-10', 2.0),
+				espressoAt('b', '2025-01-12', 3.0),
+				espressoAt('a', '2025-02-10', 2.2), // +10 %
+				espressoAt('b', '2025-02-12', 3.0), // ±0
+				espressoAt('a', '2025-03-10', 2.42) // +10 %
+			],
+			'Espresso'
+		);
+
+		expect(points.map((point) => point.month)).toEqual(['2025-01', '2025-02', '2025-03']);
+		expect(points[0]).toEqual({ month: '2025-01', index: 100, change: null, cafeCount: 0 });
+		expect(points[1].change).toBeCloseTo((Math.sqrt(1.1) - 1) * 100);
+		expect(points[1].cafeCount).toBe(2);
+		expect(points[2].change).toBeCloseTo(10);
+		expect(points[2].index).toBeCloseTo(100 * Math.sqrt(1.1) * 1.1);
+	});
+
+	it('leaves cafes without a new observation out of the month', () => {
+		const points = buildPriceIndex(
+			[
+				espressoAt('a', '2025-01-10', 2.0),
+				espressoAt('b', '2025-01-12', 3.0),
+				espressoAt('c', '2025-01-14', 2.5),
+				espressoAt('a', '2025-02-10', 2.2)
+			],
+			'Espresso'
+		);
+
+		// Only cafe a was seen again; b and c staying put must not pull +10 % down to +3.2 %
+		expect(points[1].change).toBeCloseTo(10);
+		expect(points[1].cafeCount).toBe(1);
+	});
+
+	it('counts a change across a gap in the month it is observed', () => {
+		const points = buildPriceIndex(
+			[espressoAt('a', '2025-01-10', 2.0), espressoAt('a', '2025-04-10', 2.5)],
+			'Espresso'
+		);
+
+		expect(points.map((point) => [point.month, point.change, point.cafeCount])).toEqual([
+			['2025-01', null, 0],
+			['2025-02', 0, 0],
+			['2025-03', 0, 0],
+			['2025-04', expect.closeTo(25), 1]
+		]);
+		expect(points[3].index).toBeCloseTo(125);
+	});
+
+	it('does not move when a new cafe enters', () => {
+		const points = buildPriceIndex(
+			[espressoAt('a', '2025-01-10', 2.0), espressoAt('a', '2025-02-10', 2.0), espressoAt('expensive', '2025-02-12', 4.5)],
+			'Espresso'
+		);
+
+		expect(points[1].index).toBe(100);
+		expect(points[1].cafeCount).toBe(1);
+	});
+
+	it('uses the last observation within a month', () => {
+		const points = buildPriceIndex(
+			[espressoAt('a', '2025-01-02', 2.0), espressoAt('a', '2025-01-28', 2.5), espressoAt('a', '2025-02-10', 2.5)],
+			'Espresso'
+		);
+
+		expect(points[1].change).toBe(0);
+	});
+
+	it('rebases to the given month', () => {
+		const points = buildPriceIndex(
+			[espressoAt('a', '2025-01-10', 2.0), espressoAt('a', '2025-02-10', 2.5)],
+			'Espresso',
+			'2025-02'
+		);
+
+		expect(points.map((point) => point.index)).toEqual([80, 100]);
+	});
+});
+
+describe('rebaseIndex', () => {
+	it('leaves the series alone for an unknown month', () => {
+		const points = buildPriceIndex([espressoAt('a', '2025-01-10', 2.0)], 'Espresso');
+		expect(rebaseIndex(points, '2030-01')).toBe(points);
+	});
+});
@@ -0,0 +1,103 @@
+import type { PriceRecord } from './types';
+import { findDrinkPrice } from './types';
+import { bucketKey } from './statistics';
+
+/** One month of a chained price index */
+export interface IndexPoint {
+	/** Month key, e.g. "2025-03" */
+	month: string;
+	/** Index level, 100 in the base month */
+	index: number;
+	/** Month-on-month change in percent, null for the first month */
+	change: number | null;
+	/** Cafes observed this month that had an earlier observation, the ones the change is based on */
+	cafeCount: number;
+}
+
+export function nextMonth(month: string): string {
+	const [year, monthNumber] = month.split('-').map(Number);
+	return monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+}
+
+/** Every month from `from` to `to`, inclusive */
+export function monthRange(from: string, to: string): string[] {
+	const months: string[] = [];
+	for (let month = from; month <= to; month = nextMonth(month)) {
+		months.push(month);
+	}
+	return months;
+}
+
+/** Each cafe's price for the drink per month, using the last observation in that month */
+function monthlyPricesByCafe(records: PriceRecord[], drinkName: string): Map<string, Map<string, number>> {
+	const sorted = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+	const byCafe = new Map<string, Map<string, number>>();
+
+	for (const record of sorted) {
+		const price = findDrinkPrice(record.drinks, drinkName);
+		if (price === null || price <= 0) continue;
+
+		const months = byCafe.get(record.cafeRecordName) ?? new Map<string, number>();
+		months.set(bucketKey(record.date, 'month'), price);
+		byCafe.set(record.cafeRecordName, months);
+	}
+	return byCafe;
+}
+
+/**
+ * Build a chained month-on-month price index for a drink.
+ *
+ * Each monthly link is the geometric mean of price relatives across cafes
+ * observed that month, each against its own previous observation. Cafes are
+ * rarely observed in adjacent months, so a change is counted in the month it
+ * is first seen rather than spread over the gap. Cafes without a new
+ * observation don't take part, so they don't dampen the change to 0, and new
+ * cafes don't shift the level. A month without any link keeps the level.
+ * The first month with data is the base (100) unless `baseMonth` is given.
+ */
+export function buildPriceIndex(records: PriceRecord[], drinkName: string, baseMonth?: string): IndexPoint[] {
+	const byCafe = monthlyPricesByCafe(records, drinkName);
+	const observedMonths = Array.from(byCafe.values()).flatMap((months) => Array.from(months.keys()));
+	if (observedMonths.length === 0) return [];
+
+	const months = monthRange(
+		observedMonths.reduce((a, b) => (a < b ? a : b)),
+		observedMonths.reduce((a, b) => (a > b ? a : b))
+	);
+
+	const lastPrice = new Map<string, number>();
+	const points: IndexPoint[] = [];
+	let level = 100;
+
+	for (const month of months) {
+		let logSum = 0;
+		let cafeCount = 0;
+
+		for (const [cafe, prices] of byCafe) {
+			const current = prices.get(month);
+			if (current === undefined) continue;
+
+			const previous = lastPrice.get(cafe);
+			if (previous !== undefined) {
+				logSum += Math.log(current / previous);
+				cafeCount++;
+			}
+			lastPrice.set(cafe, current);
+		}
+
+		const isFirst = points.length === 0;
+		const link = cafeCount > 0 ? Math.exp(logSum / cafeCount) : 1;
+		level = isFirst ? 100 : level * link;
+		points.push({ month, index: level, change: isFirst ? null : (link - 1) * 100, cafeCount });
+	}
+
+	return baseMonth ? rebaseIndex(points, baseMonth) : points;
+}
+
+/** Rescale an index so the base month is 100; unchanged if the month isn't in the series */
+export function rebaseIndex(points: IndexPoint[], baseMonth: string): IndexPoint[] {
+	const base = points.find((point) => point.month === baseMonth);
+	if (!base) return points;
+
+	return points.map((point) => ({ ...point, index: (point.index / base.index) * 100 }));
+}
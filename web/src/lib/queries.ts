@@ -0,0 +1,47 @@
+import type { GeoBounds } from './types';
+
+/**
+ * Query definitions shared by CloudKit JS in the browser and the CloudKit Web
+ * Services REST API on the server, which accept the same query shape.
+ */
+
+/** Keep IN filters on cafeReference well below CloudKit's request size limits */
+export const REFERENCE_CHUNK_SIZE = 50;
+
+export function cafesQuery(bounds?: GeoBounds): CloudKit.Query {
+	if (!bounds) return { recordType: 'Cafe' };
+
+	return {
+		recordType: 'Cafe',
+		filterBy: [
+			{ fieldName: 'latitude', comparator: 'GREATER_THAN_OR_EQUALS', fieldValue: { value: bounds.minLatitude } },
+			{ fieldName: 'latitude', comparator: 'LESS_THAN_OR_EQUALS', fieldValue: { value: bounds.maxLatitude } },
+			{ fieldName: 'longitude', comparator: 'GREATER_THAN_OR_EQUALS', fieldValue: { value: bounds.minLongitude } },
+			{ fieldName: 'longitude', comparator: 'LESS_THAN_OR_EQUALS', fieldValue: { value: bounds.maxLongitude } }
+		]
+	};
+}
+
+/** Price records, newest first, optionally limited to the given cafes */
+export function priceRecordsQuery(cafeRecordNames?: string[]): CloudKit.Query {
+	const sortBy = [{ fieldName: 'date', ascending: false }];
+	if (!cafeRecordNames) return { recordType: 'PriceRecord', sortBy };
+
+	return {
+		recordType: 'PriceRecord',
+		filterBy: [
+			cafeRecordNames.length === 1
+				? {
+						fieldName: 'cafeReference',
+						comparator: 'EQUALS',
+						fieldValue: { value: { recordName: cafeRecordNames[0] } }
+					}
+				: {
+						fieldName: 'cafeReference',
+						comparator: 'IN',
+						fieldValue: { value: cafeRecordNames.map((recordName) => ({ recordName })) }
+					}
+		],
+		sortBy
+	};
+}
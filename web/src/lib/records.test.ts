@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mapCafeRecord, mapPriceRecord, mapRecords, type RecordWarning } from './records';
+
+function ckRecord(recordType: string, recordName: string, fields: Record<string, unknown>): CloudKit.CKRecord {
+	return {
+		recordName,
+		recordType,
+		fields: Object.fromEntries(Object.entries(fields).map(([name, value]) => [name, { value }]))
+	} as CloudKit.CKRecord;
+}
+
+const lehel = ckRecord('Cafe', 'cafe-lehel', {
+	cafeId: 'apple-123',
+	name: 'Café Lehel',
+	address: 'Thierschstraße 1',
+	latitude: 48.1374,
+	longitude: 11.5855,
+	currentPrice: 2.8
+});
+
+function priceRecord(fields: Record<string, unknown>): CloudKit.CKRecord {
+	return ckRecord('PriceRecord', 'price-1', {
+		date: Date.UTC(2025, 0, 15),
+		cafeReference: { recordName: 'cafe-lehel' },
+		...fields
+	});
+}
+
+describe('mapCafeRecord', () => {
+	it('maps a valid cafe', () => {
+		expect(mapCafeRecord(lehel)).toEqual({
+			value: {
+				id: 'cafe-lehel',
+				recordName: 'cafe-lehel',
+				cafeId: 'apple-123',
+				name: 'Café Lehel',
+				address: 'Thierschstraße 1',
+				latitude: 48.1374,
+				longitude: 11.5855,
+				currentPrice: 2.8
+			},
+			warnings: []
+		});
+	});
+
+	it('drops a cafe with unusable coordinates and says why', () => {
+		const { value, warnings } = mapCafeRecord(ckRecord('Cafe', 'broken', { name: 'Broken', latitude: 123, longitude: 'east' }));
+
+		expect(value).toBeNull();
+		expect(warnings.map((warning) => warning.field).sort()).toEqual(['latitude', 'longitude']);
+		expect(warnings[0]).toMatchObject({ recordName: 'broken', recordType: 'Cafe' });
+	});
+});
+
+describe('mapPriceRecord', () => {
+	it('maps a valid record with canonical drink names', () => {
+		const { value, warnings } = mapPriceRecord(
+			priceRecord({
+				drinksJSON: JSON.stringify([
+					{ name: 'Espresso', price: 2.8 },
+					{ name: 'Cafe Latte', price: 4.2 }
+				]),
+				addedByName: 'Anna',
+				menuImage: { downloadURL: 'https://example.com/menu.jpg' }
+			})
+		);
+
+		expect(warnings).toEqual([]);
+		expect(value).toMatchObject({
+			recordName: 'price-1',
+			cafeRecordName: 'cafe-lehel',
+			date: new Date(Date.UTC(2025, 0, 15)),
+			addedByName: 'Anna',
+			note: null,
+			menuImageUrl: 'https://example.com/menu.jpg'
+		});
+		expect(value?.drinks.map((drink) => drink.name)).toEqual(['Espresso', 'Latte']);
+	});
+
+	it('falls back to the legacy price when drinksJSON is malformed', () => {
+		const { value, warnings } = mapPriceRecord(priceRecord({ drinksJSON: '[{"name": "Espresso"', price: 2.5 }));
+
+		expect(value?.drinks).toEqual([{ name: 'Espresso', price: 2.5 }]);
+		expect(warnings).toMatchObject([{ field: 'drinksJSON', message: 'Invalid JSON' }]);
+	});
+
+	it('reports invalid drinks by index', () => {
+		const { value, warnings } = mapPriceRecord(priceRecord({ drinksJSON: JSON.stringify([{ name: 'Espresso', price: -1 }]) }));
+
+		expect(value?.drinks).toEqual([]);
+		expect(warnings).toMatchObject([{ field: 'drinksJSON.0.price' }]);
+	});
+
+	it('ignores a legacy placeholder price of 0', () => {
+		const { value, warnings } = mapPriceRecord(priceRecord({ price: 0 }));
+
+		expect(value?.drinks).toEqual([]);
+		expect(warnings).toMatchObject([{ field: 'price' }]);
+	});
+
+	it('keeps a record without a date, dated now, and warns', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(Date.UTC(2025, 5, 1));
+		try {
+			const { value, warnings } = mapPriceRecord(priceRecord({ date: null, price: 2.5 }));
+
+			expect(value?.date).toEqual(new Date(Date.UTC(2025, 5, 1)));
+			expect(warnings).toMatchObject([{ field: 'date', message: 'Missing date' }]);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('drops a record without a cafe', () => {
+		const { value, warnings } = mapPriceRecord(priceRecord({ cafeReference: null }));
+
+		expect(value).toBeNull();
+		expect(warnings).toMatchObject([{ field: 'cafeReference' }]);
+	});
+});
+
+describe('mapRecords', () => {
+	it('keeps usable records and collects every warning', () => {
+		const collected: RecordWarning[] = [];
+		const cafes = mapRecords(
+			[lehel, ckRecord('Cafe', 'nameless', { latitude: 48, longitude: 11 }), ckRecord('Cafe', 'nowhere', { name: 'Nowhere' })],
+			mapCafeRecord,
+			(warning) => collected.push(warning)
+		);
+
+		expect(cafes.map((cafe) => cafe.recordName)).toEqual(['cafe-lehel']);
+		expect(collected.map((warning) => `${warning.recordName}.${warning.field}`)).toEqual([
+			'nameless.name',
+			'nowhere.latitude',
+			'nowhere.longitude'
+		]);
+	});
+});
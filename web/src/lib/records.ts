@@ -0,0 +1,186 @@
+import { z } from 'zod/v4';
+import { canonicalDrinkName } from 'shared/drinks';
+import type { Cafe, DrinkPrice, PriceRecord } from './types';
+
+/** Mirrors `drinkPriceSchema` in the price extraction worker */
+export const drinkPriceSchema = z.object({
+	name: z.string().min(1),
+	price: z.number().nonnegative()
+});
+
+const drinksSchema = z.array(drinkPriceSchema);
+
+const cafeFieldsSchema = z.object({
+	cafeId: z.string().optional(),
+	name: z.string().min(1),
+	address: z.string().optional(),
+	latitude: z.number().min(-90).max(90),
+	longitude: z.number().min(-180).max(180),
+	currentPrice: z.number().optional()
+});
+
+const priceRecordFieldsSchema = z.object({
+	date: z.number().optional(),
+	addedBy: z.string().optional(),
+	addedByName: z.string().optional(),
+	note: z.string().optional(),
+	menuImage: z.object({ downloadURL: z.string().optional() }).optional(),
+	cafeReference: z.object({ recordName: z.string().min(1) }),
+	drinksJSON: z.string().optional(),
+	price: z.number().optional()
+});
+
+/** A problem found while mapping a CloudKit record */
+export interface RecordWarning {
+	recordName: string;
+	recordType: string;
+	field: string;
+	message: string;
+}
+
+/** Mapped value, or null if the record was unusable, plus any warnings raised */
+export interface MappingResult<T> {
+	value: T | null;
+	warnings: RecordWarning[];
+}
+
+export type RecordMapper<T> = (record: CloudKit.CKRecord) => MappingResult<T>;
+
+/** Flatten `{ field: { value } }` into `{ field: value }`, dropping null values */
+function fieldValues(record: CloudKit.CKRecord): Record<string, unknown> {
+	const values: Record<string, unknown> = {};
+	for (const [name, field] of Object.entries(record.fields ?? {})) {
+		if (field?.value !== null && field?.value !== undefined) {
+			values[name] = field.value;
+		}
+	}
+	return values;
+}
+
+function issuesToWarnings(record: CloudKit.CKRecord, error: z.ZodError): RecordWarning[] {
+	return error.issues.map((issue) => ({
+		recordName: record.recordName,
+		recordType: record.recordType,
+		field: issue.path.join('.') || '(record)',
+		message: issue.message
+	}));
+}
+
+export function mapCafeRecord(record: CloudKit.CKRecord): MappingResult<Cafe> {
+	const parsed = cafeFieldsSchema.safeParse(fieldValues(record));
+	if (!parsed.success) {
+		return { value: null, warnings: issuesToWarnings(record, parsed.error) };
+	}
+
+	const fields = parsed.data;
+	return {
+		value: {
+			id: record.recordName,
+			recordName: record.recordName,
+			cafeId: fields.cafeId ?? '',
+			name: fields.name,
+			address: fields.address ?? '',
+			latitude: fields.latitude,
+			longitude: fields.longitude,
+			currentPrice: fields.currentPrice ?? null
+		},
+		warnings: []
+	};
+}
+
+/**
+ * Parse `drinksJSON`, falling back to the legacy single `price` field (always
+ * an espresso price) when the JSON is missing or invalid. A legacy price of 0
+ * is a placeholder, not a real price, and is ignored.
+ *
+ * Drink names are mapped to the shared catalog, so records saved before the
+ * worker normalized names ("Double Espresso", "Cafe Latte") group with newer ones.
+ */
+function parseDrinks(
+	record: CloudKit.CKRecord,
+	drinksJSON: string | undefined,
+	legacyPrice: number | undefined
+): MappingResult<DrinkPrice[]> {
+	const warnings: RecordWarning[] = [];
+	const warn = (field: string, message: string) =>
+		warnings.push({ recordName: record.recordName, recordType: record.recordType, field, message });
+
+	if (drinksJSON !== undefined) {
+		let json: unknown;
+		try {
+			json = JSON.parse(drinksJSON);
+		} catch {
+			warn('drinksJSON', 'Invalid JSON');
+		}
+
+		if (json !== undefined) {
+			const parsed = drinksSchema.safeParse(json);
+			if (parsed.success) {
+				return { value: parsed.data.map((d) => ({ ...d, name: canonicalDrinkName(d.name) })), warnings };
+			}
+			warnings.push(...issuesToWarnings(record, parsed.error).map((w) => ({ ...w, field: `drinksJSON.${w.field}` })));
+		}
+	}
+
+	if (legacyPrice !== undefined) {
+		if (legacyPrice > 0) {
+			return { value: [{ name: 'Espresso', price: legacyPrice }], warnings };
+		}
+		warn('price', 'Legacy price is not positive');
+	}
+
+	return { value: [], warnings };
+}
+
+export function mapPriceRecord(record: CloudKit.CKRecord): MappingResult<PriceRecord> {
+	const parsed = priceRecordFieldsSchema.safeParse(fieldValues(record));
+	if (!parsed.success) {
+		return { value: null, warnings: issuesToWarnings(record, parsed.error) };
+	}
+
+	const fields = parsed.data;
+	const drinks = parseDrinks(record, fields.drinksJSON, fields.price);
+	const warnings = drinks.warnings;
+	// Kept like before validation existed, dated now, so the prices still show up
+	if (fields.date === undefined) {
+		warnings.push({ recordName: record.recordName, recordType: record.recordType, field: 'date', message: 'Missing date' });
+	}
+
+	return {
+		value: {
+			id: record.recordName,
+			recordName: record.recordName,
+			drinks: drinks.value ?? [],
+			date: new Date(fields.date ?? Date.now()),
+			addedBy: fields.addedBy ?? '',
+			addedByName: fields.addedByName || 'Anonymous',
+			note: fields.note || null,
+			menuImageUrl: fields.menuImage?.downloadURL || null,
+			cafeRecordName: fields.cafeReference.recordName
+		},
+		warnings
+	};
+}
+
+function logWarning(warning: RecordWarning): void {
+	console.warn(
+		`Malformed ${warning.recordType} record ${warning.recordName}: ${warning.field}: ${warning.message}`
+	);
+}
+
+/** Map records, dropping unusable ones and reporting every warning */
+export function mapRecords<T>(
+	records: CloudKit.CKRecord[],
+	mapper: RecordMapper<T>,
+	onWarning: (warning: RecordWarning) => void = logWarning
+): T[] {
+	const values: T[] = [];
+	for (const record of records) {
+		const { value, warnings } = mapper(record);
+		warnings.forEach(onWarning);
+		if (value !== null) {
+			values.push(value);
+		}
+	}
+	return values;
+}
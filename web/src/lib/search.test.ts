@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyScore, fuzzySearch, normalizeText } from './search';
+
+describe('normalizeText', () => {
+	it('folds case, accents, umlauts and ß', () => {
+		expect(normalizeText('  Café MÜLLER ')).toBe('cafe muller');
+		expect(normalizeText('Thierschstraße')).toBe('thierschstrasse');
+	});
+});
+
+describe('fuzzyScore', () => {
+	it('ranks a prefix above a substring above a subsequence', () => {
+		const prefix = fuzzyScore('lat', 'Latte')!;
+		const wordStart = fuzzyScore('lat', 'Iced Latte')!;
+		const substring = fuzzyScore('lat', 'Chocolate')!;
+		const subsequence = fuzzyScore('lat', 'Lemon Tart')!;
+
+		expect(prefix).toBeGreaterThan(wordStart);
+		expect(wordStart).toBeGreaterThan(substring);
+		expect(substring).toBeGreaterThan(subsequence);
+	});
+
+	it('prefers consecutive characters and word starts in subsequence matches', () => {
+		expect(fuzzyScore('flat wh', 'Flat White')!).toBeGreaterThan(fuzzyScore('flat wh', 'Fluffy Latte Whip')!);
+		expect(fuzzyScore('fw', 'Flat White')!).toBeGreaterThan(fuzzyScore('fw', 'Coffee Brew')!);
+	});
+
+	it('matches regardless of case and diacritics', () => {
+		expect(fuzzyScore('CAFE MULLER', 'Café Müller')).toBe(fuzzyScore('cafe muller', 'cafe muller'));
+		expect(fuzzyScore('strasse', 'Müllerstraße')).not.toBeNull();
+	});
+
+	it('is null when a character is missing or out of order', () => {
+		expect(fuzzyScore('mocha', 'Macchiato')).toBeNull();
+		expect(fuzzyScore('tal', 'Latte')).toBeNull();
+	});
+
+	it('scores an empty query as 0', () => {
+		expect(fuzzyScore('', 'Latte')).toBe(0);
+		expect(fuzzyScore('   ', 'Latte')).toBe(0);
+	});
+});
+
+describe('fuzzySearch', () => {
+	const cafes = [
+		{ name: 'Fluffy Latte Whip', address: 'Leopoldstraße 1' },
+		{ name: 'Café Müller', address: 'Sendlinger Straße 5' },
+		{ name: 'Flat White Bar', address: 'Müllerstraße 10' }
+	];
+	const fields = (cafe: (typeof cafes)[number]) => [cafe.name, cafe.address];
+
+	it('returns the best matches first and drops the rest', () => {
+		expect(fuzzySearch(cafes, 'flat wh', fields).map((cafe) => cafe.name)).toEqual(['Flat White Bar', 'Fluffy Latte Whip']);
+	});
+
+	it('searches every field and ranks by the best one', () => {
+		expect(fuzzySearch(cafes, 'sendlinger', fields).map((cafe) => cafe.name)).toEqual(['Café Müller']);
+		// A prefix of the address beats the second word of the name
+		expect(fuzzySearch(cafes, 'muller', fields).map((cafe) => cafe.name)).toEqual(['Flat White Bar', 'Café Müller']);
+	});
+
+	it('returns every item in order for an empty query', () => {
+		expect(fuzzySearch(cafes, ' ', fields)).toEqual(cafes);
+	});
+
+	it('returns nothing when nothing matches', () => {
+		expect(fuzzySearch(cafes, 'xyz', fields)).toEqual([]);
+	});
+});
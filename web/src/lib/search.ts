@@ -0,0 +1,61 @@
+/** Lowercase and strip diacritics so "Café Müller" matches "cafe muller" */
+export function normalizeText(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/ß/g, 'ss')
+		.toLowerCase()
+		.trim();
+}
+
+/**
+ * Score how well `query` fuzzily matches `text`, or null if it doesn't.
+ *
+ * Every query character must appear in order. Substring matches score highest,
+ * then consecutive runs and characters at word starts earn bonuses, and gaps
+ * cost a little, so "flat wh" ranks "Flat White" above "Fluffy Latte Whip".
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const q = normalizeText(query);
+	const t = normalizeText(text);
+	if (q.length === 0) return 0;
+
+	const substringIndex = t.indexOf(q);
+	if (substringIndex !== -1) {
+		const atWordStart = substringIndex === 0 || /\W/.test(t[substringIndex - 1]);
+		return 100 + q.length * 2 + (atWordStart ? 20 : 0) - substringIndex * 0.1;
+	}
+
+	let score = 0;
+	let textIndex = 0;
+	let previousMatch = -2;
+	for (const char of q) {
+		const found = t.indexOf(char, textIndex);
+		if (found === -1) return null;
+
+		if (found === previousMatch + 1) score += 3;
+		if (found === 0 || /\W/.test(t[found - 1])) score += 2;
+		score += 1 - Math.min(found - textIndex, 10) * 0.1;
+
+		previousMatch = found;
+		textIndex = found + 1;
+	}
+	return score;
+}
+
+/** Items matching the query in any of the given fields, best match first */
+export function fuzzySearch<T>(items: T[], query: string, fields: (item: T) => string[]): T[] {
+	if (normalizeText(query).length === 0) return items;
+
+	const scored: { item: T; score: number }[] = [];
+	for (const item of items) {
+		let best: number | null = null;
+		for (const field of fields(item)) {
+			const score = fuzzyScore(query, field);
+			if (score !== null && (best === null || score > best)) best = score;
+		}
+		if (best !== null) scored.push({ item, score: best });
+	}
+
+	return scored.sort((a, b) => b.score - a.score).map(({ item }) => item);
+}
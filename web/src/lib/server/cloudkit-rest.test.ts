@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CloudKitRestDataSource, CloudKitRestError } from './cloudkit-rest';
+
+function cafeRecord(index: number): CloudKit.CKRecord {
+	return {
+		recordName: `cafe-${index}`,
+		recordType: 'Cafe',
+		fields: {
+			name: { value: `Cafe ${index}` },
+			latitude: { value: 48.1 },
+			longitude: { value: 11.5 }
+		}
+	} as CloudKit.CKRecord;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function dataSource(fetch: typeof globalThis.fetch) {
+	return new CloudKitRestDataSource({
+		containerIdentifier: 'iCloud.test',
+		environment: 'development',
+		apiToken: 'token',
+		fetch
+	});
+}
+
+/** Requests made to the fake fetch, as parsed JSON bodies */
+function requestBodies(fetch: ReturnType<typeof vi.fn>): Record<string, unknown>[] {
+	return fetch.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string));
+}
+
+describe('CloudKitRestDataSource', () => {
+	it('follows continuation markers until the last page', async () => {
+		const fetch = vi
+			.fn()
+			.mockResolvedValueOnce(jsonResponse({ records: [cafeRecord(1), cafeRecord(2)], continuationMarker: 'page-2' }))
+			.mockResolvedValueOnce(jsonResponse({ records: [cafeRecord(3)], continuationMarker: 'page-3' }))
+			.mockResolvedValueOnce(jsonResponse({ records: [cafeRecord(4)] }));
+
+		const cafes = await dataSource(fetch).listCafes();
+
+		expect(cafes.map((cafe) => cafe.recordName)).toEqual(['cafe-1', 'cafe-2', 'cafe-3', 'cafe-4']);
+		expect(requestBodies(fetch).map((body) => body.continuationMarker)).toEqual([undefined, 'page-2', 'page-3']);
+	});
+
+	it('stops paging at 10,000 records', async () => {
+		const page = Array.from({ length: 200 }, (_, i) => cafeRecord(i));
+		const fetch = vi.fn().mockImplementation(async () => jsonResponse({ records: page, continuationMarker: 'more' }));
+
+		const cafes = await dataSource(fetch).listCafes();
+
+		expect(cafes).toHaveLength(10_000);
+		expect(fetch).toHaveBeenCalledTimes(50);
+	});
+
+	it('sends bounds as latitude and longitude filters', async () => {
+		const fetch = vi.fn().mockResolvedValue(jsonResponse({ records: [] }));
+
+		await dataSource(fetch).listCafes({ minLatitude: 48, maxLatitude: 49, minLongitude: 11, maxLongitude: 12 });
+
+		const [url] = fetch.mock.calls[0];
+		expect(String(url)).toBe('https://api.apple-cloudkit.com/database/1/iCloud.test/development/public/records/query?ckAPIToken=token');
+		expect(requestBodies(fetch)[0]).toMatchObject({ query: { recordType: 'Cafe', filterBy: expect.any(Array) } });
+		expect((requestBodies(fetch)[0].query as { filterBy: unknown[] }).filterBy).toHaveLength(4);
+	});
+
+	it('returns null for a cafe CloudKit does not know', async () => {
+		const fetch = vi.fn().mockResolvedValue(jsonResponse({ records: [{ recordName: 'missing', serverErrorCode: 'NOT_FOUND' }] }));
+
+		expect(await dataSource(fetch).getCafe('missing')).toBeNull();
+	});
+
+	it('throws CloudKit errors with their reason and code', async () => {
+		const fetch = vi
+			.fn()
+			.mockResolvedValue(jsonResponse({ reason: 'Invalid token', serverErrorCode: 'AUTHENTICATION_FAILED' }, 401));
+
+		const error = await dataSource(fetch)
+			.listCafes()
+			.catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(CloudKitRestError);
+		expect(error).toMatchObject({ message: 'Invalid token', status: 401, serverErrorCode: 'AUTHENTICATION_FAILED' });
+	});
+});
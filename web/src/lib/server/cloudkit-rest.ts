@@ -0,0 +1,87 @@
+import { CLOUDKIT_PAGE_SIZE, fetchAllPages } from 'shared/cloudkit';
+import type { Cafe, GeoBounds, PriceRecord } from '$lib/types';
+import { mapCafeRecord, mapPriceRecord, mapRecords } from '$lib/records';
+import { cafesQuery, priceRecordsQuery } from '$lib/queries';
+import type { CafeDataSource } from './data-source';
+
+const CLOUDKIT_API_BASE = 'https://api.apple-cloudkit.com/database/1';
+
+export interface CloudKitRestOptions {
+	containerIdentifier: string;
+	environment: 'development' | 'production';
+	apiToken: string;
+	fetch?: typeof fetch;
+}
+
+interface QueryResponse {
+	records: (CloudKit.CKRecord & { serverErrorCode?: string })[];
+	continuationMarker?: string;
+}
+
+export class CloudKitRestError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly serverErrorCode?: string
+	) {
+		super(message);
+		this.name = 'CloudKitRestError';
+	}
+}
+
+/** Reads the public database through the CloudKit Web Services REST API */
+export class CloudKitRestDataSource implements CafeDataSource {
+	private readonly fetch: typeof fetch;
+
+	constructor(private readonly options: CloudKitRestOptions) {
+		this.fetch = options.fetch ?? fetch;
+	}
+
+	private async request<T>(operation: string, body: unknown): Promise<T> {
+		const { containerIdentifier, environment, apiToken } = this.options;
+		const url = new URL(`${CLOUDKIT_API_BASE}/${containerIdentifier}/${environment}/public/${operation}`);
+		url.searchParams.set('ckAPIToken', apiToken);
+
+		const response = await this.fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body)
+		});
+
+		if (!response.ok) {
+			const error = (await response.json().catch(() => ({}))) as { reason?: string; serverErrorCode?: string };
+			throw new CloudKitRestError(
+				error.reason ?? `CloudKit request failed with status ${response.status}`,
+				response.status,
+				error.serverErrorCode
+			);
+		}
+
+		return response.json() as Promise<T>;
+	}
+
+	/** Run a query, following continuation markers up to CLOUDKIT_MAX_QUERY_RECORDS */
+	private query(query: CloudKit.Query): Promise<CloudKit.CKRecord[]> {
+		return fetchAllPages((continuationMarker) =>
+			this.request<QueryResponse>('records/query', { query, resultsLimit: CLOUDKIT_PAGE_SIZE, continuationMarker })
+		);
+	}
+
+	async listCafes(bounds?: GeoBounds): Promise<Cafe[]> {
+		return mapRecords(await this.query(cafesQuery(bounds)), mapCafeRecord);
+	}
+
+	async getCafe(recordName: string): Promise<Cafe | null> {
+		const response = await this.request<QueryResponse>('records/lookup', {
+			records: [{ recordName }]
+		});
+		// Missing records come back as entries with a serverErrorCode instead of fields
+		const found = response.records.filter((record) => !record.serverErrorCode);
+		const [cafe] = mapRecords(found, mapCafeRecord);
+		return cafe ?? null;
+	}
+
+	async listPriceRecords(cafeRecordName: string): Promise<PriceRecord[]> {
+		return mapRecords(await this.query(priceRecordsQuery([cafeRecordName])), mapPriceRecord);
+	}
+}
@@ -0,0 +1,34 @@
+import type { Cafe, GeoBounds, PriceRecord } from '$lib/types';
+
+/** Read access to cafes and their price records, independent of where they live */
+export interface CafeDataSource {
+	listCafes(bounds?: GeoBounds): Promise<Cafe[]>;
+	getCafe(recordName: string): Promise<Cafe | null>;
+	/** Price records for a cafe, newest first */
+	listPriceRecords(cafeRecordName: string): Promise<PriceRecord[]>;
+}
+
+/** Cache-Control for API responses: data changes rarely, so let the edge cache absorb traffic */
+export const API_CACHE_CONTROL = 'public, max-age=60, s-maxage=300, stale-while-revalidate=600';
+
+export function isInBounds(cafe: Cafe, bounds: GeoBounds): boolean {
+	return (
+		cafe.latitude >= bounds.minLatitude &&
+		cafe.latitude <= bounds.maxLatitude &&
+		cafe.longitude >= bounds.minLongitude &&
+		cafe.longitude <= bounds.maxLongitude
+	);
+}
+
+/** Parse `minLatitude,minLongitude,maxLatitude,maxLongitude`; null if absent, undefined if invalid */
+export function parseBounds(value: string | null): GeoBounds | null | undefined {
+	if (value === null) return null;
+
+	const parts = value.split(',').map(Number);
+	if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return undefined;
+
+	const [minLatitude, minLongitude, maxLatitude, maxLongitude] = parts;
+	if (minLatitude > maxLatitude || minLongitude > maxLongitude) return undefined;
+
+	return { minLatitude, minLongitude, maxLatitude, maxLongitude };
+}
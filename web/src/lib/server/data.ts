@@ -0,0 +1,53 @@
+import { env } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import { dev } from '$app/environment';
+import { CONTAINER_IDENTIFIER } from '$lib/cloudkit';
+import { fetchHiddenRecordNamesOrNone } from '$lib/moderation';
+import { CloudKitRestDataSource } from './cloudkit-rest';
+import { ModeratedDataSource } from './moderated';
+import type { CafeDataSource } from './data-source';
+
+let dataSource: Promise<CafeDataSource> | null = null;
+
+/**
+ * The data source used by server routes. Set `DATA_SOURCE=fixture` in development
+ * to serve the bundled fixtures instead of querying CloudKit. CloudKit data skips
+ * price records hidden by the worker's moderation when its URL is configured.
+ */
+export function getDataSource(): Promise<CafeDataSource> {
+	dataSource ??= createDataSource().catch((err) => {
+		// Retry on the next request, e.g. once the token is configured
+		dataSource = null;
+		throw err;
+	});
+	return dataSource;
+}
+
+async function createDataSource(): Promise<CafeDataSource> {
+	if (env.DATA_SOURCE === 'fixture') {
+		// Imported only in development, so the fixtures stay out of the production bundle
+		if (!dev) {
+			throw new Error('DATA_SOURCE=fixture is only available in development');
+		}
+		const { FixtureDataSource } = await import('./fixture');
+		return new FixtureDataSource();
+	}
+
+	const apiToken = env.CLOUDKIT_API_TOKEN || publicEnv.PUBLIC_CLOUDKIT_TOKEN;
+	if (!apiToken) {
+		throw new Error('CLOUDKIT_API_TOKEN is not configured');
+	}
+
+	const cloudKit = new CloudKitRestDataSource({
+		containerIdentifier: CONTAINER_IDENTIFIER,
+		environment: dev ? 'development' : 'production',
+		apiToken
+	});
+	const workerUrl = publicEnv.PUBLIC_EXTRACTION_WORKER_URL;
+	return workerUrl ? new ModeratedDataSource(cloudKit, () => fetchHiddenRecordNamesOrNone({ workerUrl })) : cloudKit;
+}
+
+/** Replace the data source, e.g. with a `FixtureDataSource` in tests */
+export function setDataSource(source: CafeDataSource | null): void {
+	dataSource = source ? Promise.resolve(source) : null;
+}
@@ -0,0 +1,92 @@
+import type { Cafe, GeoBounds, PriceRecord } from '$lib/types';
+import { isInBounds, type CafeDataSource } from './data-source';
+
+/** In-memory data source for local development and tests, no CloudKit access needed */
+export class FixtureDataSource implements CafeDataSource {
+	constructor(
+		private readonly cafes: Cafe[] = fixtureCafes,
+		private readonly priceRecords: PriceRecord[] = fixturePriceRecords
+	) {}
+
+	async listCafes(bounds?: GeoBounds): Promise<Cafe[]> {
+		return bounds ? this.cafes.filter((cafe) => isInBounds(cafe, bounds)) : [...this.cafes];
+	}
+
+	async getCafe(recordName: string): Promise<Cafe | null> {
+		return this.cafes.find((cafe) => cafe.recordName === recordName) ?? null;
+	}
+
+	async listPriceRecords(cafeRecordName: string): Promise<PriceRecord[]> {
+		return this.priceRecords
+			.filter((record) => record.cafeRecordName === cafeRecordName)
+			.sort((a, b) => b.date.getTime() - a.date.getTime());
+	}
+}
+
+export const fixtureCafes: Cafe[] = [
+	{
+		id: 'fixture-cafe-lehel',
+		recordName: 'fixture-cafe-lehel',
+		cafeId: 'fixture-cafe-lehel',
+		name: 'Café Lehel',
+		address: 'St.-Anna-Platz 1, 80538 München',
+		latitude: 48.1392,
+		longitude: 11.5873,
+		currentPrice: 2.6
+	},
+	{
+		id: 'fixture-cafe-glockenbach',
+		recordName: 'fixture-cafe-glockenbach',
+		cafeId: 'fixture-cafe-glockenbach',
+		name: 'Espressobar Glockenbach',
+		address: 'Müllerstraße 10, 80469 München',
+		latitude: 48.1323,
+		longitude: 11.5696,
+		currentPrice: 2.2
+	}
+];
+
+export const fixturePriceRecords: PriceRecord[] = [
+	{
+		id: 'fixture-price-1',
+		recordName: 'fixture-price-1',
+		drinks: [
+			{ name: 'Espresso', price: 2.4 },
+			{ name: 'Cappuccino', price: 3.9 }
+		],
+		date: new Date('2025-06-01T09:00:00Z'),
+		addedBy: 'fixture-user',
+		addedByName: 'Fixture User',
+		note: null,
+		menuImageUrl: null,
+		cafeRecordName: 'fixture-cafe-lehel'
+	},
+	{
+		id: 'fixture-price-2',
+		recordName: 'fixture-price-2',
+		drinks: [
+			{ name: 'Espresso', price: 2.6 },
+			{ name: 'Cappuccino', price: 4.2 }
+		],
+		date: new Date('2026-01-10T09:00:00Z'),
+		addedBy: 'fixture-user',
+		addedByName: 'Fixture User',
+		note: 'New menu',
+		menuImageUrl: null,
+		cafeRecordName: 'fixture-cafe-lehel'
+	},
+	{
+		id: 'fixture-price-3',
+		recordName: 'fixture-price-3',
+		drinks: [
+			{ name: 'Espresso', price: 2.2 },
+			{ name: 'Flat White', price: 3.8 }
+		],
+		date: new Date('2025-11-20T14:30:00Z'),
+		addedBy: 'fixture-user',
+		addedByName: 'Fixture User',
+		note: null,
+		menuImageUrl: null,
+		cafeRecordName: 'fixture-cafe-glockenbach'
+	}
+];
@@ -0,0 +1,40 @@
+import type { Cafe, GeoBounds, PriceRecord } from '$lib/types';
+import { withoutHidden } from '$lib/moderation';
+import type { CafeDataSource } from './data-source';
+
+/** How long the list of hidden records is reused before asking the worker again */
+const HIDDEN_RECORDS_TTL_MS = 60_000;
+
+/** Wraps a data source and leaves out price records hidden after community reports */
+export class ModeratedDataSource implements CafeDataSource {
+	private hidden: { names: Set<string>; fetchedAt: number } | null = null;
+
+	constructor(
+		private readonly inner: CafeDataSource,
+		private readonly loadHidden: () => Promise<Set<string>>,
+		private readonly now: () => number = Date.now
+	) {}
+
+	private async hiddenRecordNames(): Promise<Set<string>> {
+		if (!this.hidden || this.now() - this.hidden.fetchedAt > HIDDEN_RECORDS_TTL_MS) {
+			this.hidden = { names: await this.loadHidden(), fetchedAt: this.now() };
+		}
+		return this.hidden.names;
+	}
+
+	listCafes(bounds?: GeoBounds): Promise<Cafe[]> {
+		return this.inner.listCafes(bounds);
+	}
+
+	getCafe(recordName: string): Promise<Cafe | null> {
+		return this.inner.getCafe(recordName);
+	}
+
+	async listPriceRecords(cafeRecordName: string): Promise<PriceRecord[]> {
+		const [records, hidden] = await Promise.all([
+			this.inner.listPriceRecords(cafeRecordName),
+			this.hiddenRecordNames()
+		]);
+		return withoutHidden(records, hidden);
+	}
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { drinkStatsWithoutOutliers, findPriceOutliers, priceKey, summarizeDrinks, withoutOutliers } from './statistics';
+import type { DrinkPrice, PriceRecord } from './types';
+
+function record(recordName: string, cafeRecordName: string, date: string, drinks: DrinkPrice[]): PriceRecord {
+	return {
+		id: recordName,
+		recordName,
+		drinks,
+		date: new Date(date),
+		addedBy: '_user',
+		addedByName: 'Timo',
+		note: null,
+		menuImageUrl: null,
+		cafeRecordName
+	};
+}
+
+const espresso = (price: number): DrinkPrice[] => [{ name: 'Espresso', price }];
+
+// Eight cafes with typical prices, one of them with a typo
+const records = [
+	record('r1', 'cafe-1', '2026-01-01', espresso(2.2)),
+	record('r2', 'cafe-2', '2026-01-01', espresso(2.4)),
+	record('r3', 'cafe-3', '2026-01-01', espresso(2.5)),
+	record('r4', 'cafe-4', '2026-01-01', espresso(2.6)),
+	record('r5', 'cafe-5', '2026-01-01', espresso(2.8)),
+	record('r6', 'cafe-6', '2026-01-01', espresso(2.3)),
+	record('r7', 'cafe-7', '2026-01-01', espresso(2.7)),
+	record('typo', 'cafe-8', '2026-01-01', espresso(28))
+];
+
+describe('findPriceOutliers', () => {
+	it('flags a price far outside the quartiles', () => {
+		expect(findPriceOutliers(records)).toEqual(new Set([priceKey('typo', 'Espresso')]));
+	});
+
+	it("flags a price far from the cafe's earlier prices, even without quartiles", () => {
+		const history = [
+			record('old', 'cafe-1', '2025-06-01', espresso(2.8)),
+			record('typo', 'cafe-1', '2025-09-01', espresso(0.28)),
+			record('new', 'cafe-1', '2026-01-01', espresso(2.9))
+		];
+
+		expect(findPriceOutliers(history, new Map())).toEqual(new Set([priceKey('typo', 'espresso')]));
+	});
+});
+
+describe('withoutOutliers', () => {
+	it('removes only the flagged drink prices', () => {
+		const mixed = record('r', 'cafe-1', '2026-01-01', [
+			{ name: 'Espresso', price: 28 },
+			{ name: 'Cappuccino', price: 3.8 }
+		]);
+
+		expect(withoutOutliers([mixed], new Set([priceKey('r', 'Espresso')]))[0].drinks).toEqual([{ name: 'Cappuccino', price: 3.8 }]);
+	});
+});
+
+describe('drinkStatsWithoutOutliers', () => {
+	it('leaves outliers out of the quartiles', () => {
+		expect(drinkStatsWithoutOutliers(records).get('Espresso')).toMatchObject({ maxPrice: 2.8 });
+	});
+});
+
+describe('summarizeDrinks', () => {
+	it('counts every current price but leaves outliers out of the quartiles', () => {
+		const [summary] = summarizeDrinks(records);
+
+		expect(summary.cafeCount).toBe(8);
+		expect(summary.stats).toMatchObject({ maxPrice: 2.8 });
+	});
+});
@@ -0,0 +1,198 @@
+import { canonicalDrinkId } from 'shared/drinks';
+import { isPriceOutlier } from 'shared/outliers';
+import type { DrinkPriceStats, PriceRecord } from './types';
+import { calculatePriceStats } from './types';
+
+export type TimeBucket = 'month' | 'quarter' | 'year';
+
+/** A drink price observed at a cafe */
+export interface PriceObservation {
+	cafeRecordName: string;
+	price: number;
+	date: Date;
+}
+
+export interface HistogramBin {
+	start: number;
+	end: number;
+	count: number;
+}
+
+export interface BucketStats {
+	/** Sortable key such as "2025-03", "2025-Q1" or "2025" */
+	bucket: string;
+	median: number;
+	count: number;
+}
+
+export interface DrinkSummary {
+	drink: string;
+	cafeCount: number;
+	/** Quartiles over current prices without outliers, null when too few for meaningful quartiles */
+	stats: DrinkPriceStats | null;
+	/** Current prices, cheapest first */
+	current: PriceObservation[];
+	histogram: HistogramBin[];
+	/** Median of all observations per month, oldest first */
+	monthly: BucketStats[];
+}
+
+export function bucketKey(date: Date, bucket: TimeBucket): string {
+	const year = date.getUTCFullYear();
+	switch (bucket) {
+		case 'year':
+			return `${year}`;
+		case 'quarter':
+			return `${year}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+		case 'month':
+		default:
+			return `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+	}
+}
+
+export function median(values: number[]): number | null {
+	if (values.length === 0) return null;
+
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/** The most recent record for each cafe */
+export function latestRecordByCafe(records: PriceRecord[]): Map<string, PriceRecord> {
+	const latest = new Map<string, PriceRecord>();
+	for (const record of records) {
+		const existing = latest.get(record.cafeRecordName);
+		if (!existing || record.date > existing.date) {
+			latest.set(record.cafeRecordName, record);
+		}
+	}
+	return latest;
+}
+
+/** Every drink price in the records, grouped by drink name */
+export function observationsByDrink(records: PriceRecord[]): Map<string, PriceObservation[]> {
+	const byDrink = new Map<string, PriceObservation[]>();
+	for (const record of records) {
+		for (const drink of record.drinks) {
+			const observations = byDrink.get(drink.name) ?? [];
+			observations.push({ cafeRecordName: record.cafeRecordName, price: drink.price, date: record.date });
+			byDrink.set(drink.name, observations);
+		}
+	}
+	return byDrink;
+}
+
+/** Group observations into time buckets and take the median of each, oldest first */
+export function bucketMedians(observations: PriceObservation[], bucket: TimeBucket): BucketStats[] {
+	const prices = new Map<string, number[]>();
+	for (const observation of observations) {
+		const key = bucketKey(observation.date, bucket);
+		const bucketPrices = prices.get(key) ?? [];
+		bucketPrices.push(observation.price);
+		prices.set(key, bucketPrices);
+	}
+
+	return Array.from(prices, ([key, values]) => ({ bucket: key, median: median(values)!, count: values.length })).sort(
+		(a, b) => a.bucket.localeCompare(b.bucket)
+	);
+}
+
+/** Equal-width bins covering the prices, aligned to multiples of binWidth */
+export function histogram(prices: number[], binWidth = 0.2): HistogramBin[] {
+	if (prices.length === 0) return [];
+
+	// Work in cents to avoid floating point drift at bin edges
+	const width = Math.round(binWidth * 100);
+	const cents = prices.map((price) => Math.round(price * 100));
+	const first = Math.floor(Math.min(...cents) / width);
+	const last = Math.floor(Math.max(...cents) / width);
+
+	const bins: HistogramBin[] = [];
+	for (let i = first; i <= last; i++) {
+		bins.push({ start: (i * width) / 100, end: ((i + 1) * width) / 100, count: 0 });
+	}
+	for (const value of cents) {
+		bins[Math.floor(value / width) - first].count++;
+	}
+	return bins;
+}
+
+/** Key of one drink price in one record, as stored in the set returned by `findPriceOutliers` */
+export function priceKey(recordName: string, drinkName: string): string {
+	return `${recordName}:${canonicalDrinkId(drinkName)}`;
+}
+
+/** Quartiles per drink name over every price in the records, outliers included */
+function rawDrinkStats(records: PriceRecord[]): Map<string, DrinkPriceStats> {
+	const statsByDrink = new Map<string, DrinkPriceStats>();
+	for (const [drink, observations] of observationsByDrink(records)) {
+		const stats = calculatePriceStats(observations.map((o) => o.price));
+		if (stats) statsByDrink.set(drink, stats);
+	}
+	return statsByDrink;
+}
+
+/**
+ * Drink prices that look like typos, e.g. 28.00 for 2.80, as `priceKey`s. A price is
+ * compared to the drink's quartiles and to the cafe's earlier prices for the drink;
+ * flagged prices don't count as history, so one typo doesn't flag the next record.
+ * Without `statsByDrink` the quartiles come from the records themselves.
+ */
+export function findPriceOutliers(
+	records: PriceRecord[],
+	statsByDrink: Map<string, DrinkPriceStats> = rawDrinkStats(records)
+): Set<string> {
+	const outliers = new Set<string>();
+	const historyByCafeDrink = new Map<string, number[]>();
+
+	for (const record of [...records].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+		for (const drink of record.drinks) {
+			const historyKey = `${record.cafeRecordName}:${canonicalDrinkId(drink.name)}`;
+			const history = historyByCafeDrink.get(historyKey) ?? [];
+
+			if (isPriceOutlier(drink.price, { stats: statsByDrink.get(drink.name), history })) {
+				outliers.add(priceKey(record.recordName, drink.name));
+			} else {
+				historyByCafeDrink.set(historyKey, [...history, drink.price]);
+			}
+		}
+	}
+	return outliers;
+}
+
+/** The records with their outlier prices removed */
+export function withoutOutliers(records: PriceRecord[], outliers: Set<string>): PriceRecord[] {
+	if (outliers.size === 0) return records;
+	return records.map((record) => ({
+		...record,
+		drinks: record.drinks.filter((drink) => !outliers.has(priceKey(record.recordName, drink.name)))
+	}));
+}
+
+/** Quartiles per drink name over every price in the records, leaving out outliers */
+export function drinkStatsWithoutOutliers(records: PriceRecord[]): Map<string, DrinkPriceStats> {
+	return rawDrinkStats(withoutOutliers(records, findPriceOutliers(records)));
+}
+
+/** Per-drink statistics over current prices (each cafe's latest record) and the full history */
+export function summarizeDrinks(records: PriceRecord[]): DrinkSummary[] {
+	const latest = Array.from(latestRecordByCafe(records).values());
+	const currentByDrink = observationsByDrink(latest);
+	// Quartiles leave out likely typos; the histogram still shows every current price
+	const typicalByDrink = observationsByDrink(withoutOutliers(latest, findPriceOutliers(records)));
+	const allByDrink = observationsByDrink(records);
+
+	return Array.from(currentByDrink, ([drink, observations]) => {
+		const current = [...observations].sort((a, b) => a.price - b.price);
+		const prices = current.map((o) => o.price);
+		return {
+			drink,
+			cafeCount: current.length,
+			stats: calculatePriceStats((typicalByDrink.get(drink) ?? []).map((o) => o.price)),
+			current,
+			histogram: histogram(prices),
+			monthly: bucketMedians(allByDrink.get(drink) ?? [], 'month')
+		};
+	}).sort((a, b) => b.cafeCount - a.cafeCount || a.drink.localeCompare(b.drink));
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { levelForBounds, tileBounds, tileKey, TileCache, tilesForBounds, type Tile } from './tiles';
+import type { GeoBounds } from './types';
+
+// Central Munich, about 11 × 7 km
+const munich = { minLatitude: 48.1, maxLatitude: 48.16, minLongitude: 11.5, maxLongitude: 11.65 };
+// Germany, about 8° × 9°
+const germany = { minLatitude: 47.3, maxLatitude: 55.1, minLongitude: 5.9, maxLongitude: 15.0 };
+
+describe('tileKey', () => {
+	it('is level/x/y', () => {
+		expect(tileKey({ level: 3, x: 12, y: 7 })).toBe('3/12/7');
+	});
+});
+
+describe('tileBounds', () => {
+	it('is a 2° cell from the south-west corner at level 0', () => {
+		expect(tileBounds({ level: 0, x: 0, y: 0 })).toEqual({
+			minLatitude: -90,
+			maxLatitude: -88,
+			minLongitude: -180,
+			maxLongitude: -178
+		});
+	});
+
+	it('halves the cell size with each level', () => {
+		const bounds = tileBounds({ level: 5, x: 3069, y: 2210 });
+		expect(bounds.maxLatitude - bounds.minLatitude).toBe(0.0625);
+		expect(bounds.maxLongitude - bounds.minLongitude).toBe(0.0625);
+	});
+});
+
+describe('tilesForBounds', () => {
+	it('returns the tiles covering the bounds, including partial ones', () => {
+		const tiles = tilesForBounds(munich, 5);
+
+		expect(tiles).toHaveLength(3 * 2);
+		for (const tile of tiles) {
+			const bounds = tileBounds(tile);
+			expect(bounds.maxLatitude).toBeGreaterThan(munich.minLatitude);
+			expect(bounds.minLatitude).toBeLessThanOrEqual(munich.maxLatitude);
+			expect(bounds.maxLongitude).toBeGreaterThan(munich.minLongitude);
+			expect(bounds.minLongitude).toBeLessThanOrEqual(munich.maxLongitude);
+		}
+	});
+
+	it('returns a single tile for bounds inside one cell', () => {
+		expect(tilesForBounds({ minLatitude: 48.11, maxLatitude: 48.12, minLongitude: 11.58, maxLongitude: 11.59 }, 5)).toEqual([
+			{ level: 5, x: 3065, y: 2209 }
+		]);
+	});
+
+	it('stays inside the grid at the antimeridian and the poles', () => {
+		const tiles = tilesForBounds({ minLatitude: 88.5, maxLatitude: 90, minLongitude: 179, maxLongitude: 180 }, 0);
+		expect(tiles).toEqual([{ level: 0, x: 179, y: 89 }]);
+	});
+});
+
+describe('levelForBounds', () => {
+	it('uses the finest level for a city', () => {
+		expect(levelForBounds(munich)).toBe(5);
+	});
+
+	it('uses a coarser level for larger regions', () => {
+		// 30 tiles at level 0, more than 36 at level 1
+		expect(levelForBounds(germany)).toBe(0);
+	});
+
+	it('refuses regions needing more than 36 tiles at level 0', () => {
+		expect(levelForBounds({ minLatitude: 35, maxLatitude: 60, minLongitude: -10, maxLongitude: 30 })).toBeNull();
+	});
+});
+
+describe('TileCache', () => {
+	it('returns every tile of a new region as missing', () => {
+		const cache = new TileCache();
+		expect(cache.missingTiles(munich)).toEqual(tilesForBounds(munich, 5));
+	});
+
+	it('skips pending tiles and clears them once loaded', () => {
+		const cache = new TileCache();
+		const [first, ...rest] = cache.missingTiles(munich)!;
+
+		cache.markPending(first);
+		expect(cache.isLoading).toBe(true);
+		expect(cache.missingTiles(munich)).toEqual(rest);
+
+		cache.markLoaded(first);
+		expect(cache.isLoading).toBe(false);
+		expect(cache.isLoaded(first)).toBe(true);
+		expect(cache.missingTiles(munich)).toEqual(rest);
+	});
+
+	it('retries failed tiles', () => {
+		const cache = new TileCache();
+		const tile: Tile = { level: 5, x: 3065, y: 2209 };
+
+		cache.markPending(tile);
+		cache.markFailed(tile);
+
+		expect(cache.isLoading).toBe(false);
+		expect(cache.isLoaded(tile)).toBe(false);
+		expect(cache.missingTiles({ minLatitude: 48.11, maxLatitude: 48.12, minLongitude: 11.58, maxLongitude: 11.59 })).toEqual([tile]);
+	});
+
+	it('treats tiles inside a loaded coarser tile as loaded', () => {
+		const cache = new TileCache();
+		for (const tile of cache.missingTiles(germany)!) cache.markLoaded(tile);
+
+		expect(cache.missingTiles(munich)).toEqual([]);
+		expect(cache.isLoaded({ level: 5, x: 3065, y: 2209 })).toBe(true);
+	});
+
+	it('does not fetch again when zooming out over tiles loaded while zoomed in', () => {
+		// 6 × 6 level-4 tiles, which would be 12 × 12 at level 5
+		const zoomedOut = { minLatitude: 48.01, maxLatitude: 48.74, minLongitude: 11.01, maxLongitude: 11.74 };
+		expect(levelForBounds(zoomedOut)).toBe(4);
+		const cache = new TileCache();
+		const fetched: Tile[] = [];
+		const load = (bounds: GeoBounds) => {
+			for (const tile of cache.missingTiles(bounds) ?? []) {
+				fetched.push(tile);
+				cache.markLoaded(tile);
+			}
+		};
+
+		// Pan across the same area zoomed in, one quarter at a time
+		for (const [minLatitude, maxLatitude] of [[48.01, 48.37], [48.38, 48.74]]) {
+			for (const [minLongitude, maxLongitude] of [[11.01, 11.37], [11.38, 11.74]]) {
+				load({ minLatitude, maxLatitude, minLongitude, maxLongitude });
+			}
+		}
+		expect(fetched).toHaveLength(144);
+		expect(fetched.every((tile) => tile.level === 5)).toBe(true);
+
+		load(zoomedOut);
+		expect(fetched).toHaveLength(144);
+	});
+
+	it('does not treat a coarser tile as loaded while one of its finer tiles is missing', () => {
+		const cache = new TileCache();
+		cache.markLoaded({ level: 5, x: 0, y: 0 });
+		cache.markLoaded({ level: 5, x: 1, y: 0 });
+		cache.markLoaded({ level: 5, x: 0, y: 1 });
+
+		expect(cache.isLoaded({ level: 4, x: 0, y: 0 })).toBe(false);
+		cache.markLoaded({ level: 5, x: 1, y: 1 });
+		expect(cache.isLoaded({ level: 4, x: 0, y: 0 })).toBe(true);
+	});
+
+	it('returns null for regions too large to load', () => {
+		expect(new TileCache().missingTiles({ minLatitude: -60, maxLatitude: 60, minLongitude: -120, maxLongitude: 120 })).toBeNull();
+	});
+});
@@ -0,0 +1,133 @@
+import type { GeoBounds } from './types';
+
+/** Tile edge length at level 0, in degrees */
+const COARSEST_TILE_DEGREES = 2;
+/** Finest level: 2° / 2^5 = 0.0625°, roughly 7km */
+const MAX_LEVEL = 5;
+/** Regions needing more tiles than this at level 0 are too large to load */
+const MAX_TILES_PER_REGION = 36;
+
+/**
+ * A cell in a fixed lat/long grid. Each level halves the tile size, so every
+ * tile lies entirely inside its parent on the level above.
+ */
+export interface Tile {
+	level: number;
+	x: number;
+	y: number;
+}
+
+function tileDegrees(level: number): number {
+	return COARSEST_TILE_DEGREES / 2 ** level;
+}
+
+export function tileKey(tile: Tile): string {
+	return `${tile.level}/${tile.x}/${tile.y}`;
+}
+
+export function tileBounds(tile: Tile): GeoBounds {
+	const size = tileDegrees(tile.level);
+	return {
+		minLatitude: tile.y * size - 90,
+		maxLatitude: (tile.y + 1) * size - 90,
+		minLongitude: tile.x * size - 180,
+		maxLongitude: (tile.x + 1) * size - 180
+	};
+}
+
+/** Inclusive x and y index ranges of the tiles covering the bounds */
+function tileRange(bounds: GeoBounds, level: number) {
+	const size = tileDegrees(level);
+	return {
+		minX: Math.floor((bounds.minLongitude + 180) / size),
+		maxX: Math.floor((Math.min(bounds.maxLongitude, 180 - 1e-9) + 180) / size),
+		minY: Math.floor((bounds.minLatitude + 90) / size),
+		maxY: Math.floor((Math.min(bounds.maxLatitude, 90 - 1e-9) + 90) / size)
+	};
+}
+
+export function tilesForBounds(bounds: GeoBounds, level: number): Tile[] {
+	const { minX, maxX, minY, maxY } = tileRange(bounds, level);
+
+	const tiles: Tile[] = [];
+	for (let x = minX; x <= maxX; x++) {
+		for (let y = minY; y <= maxY; y++) {
+			tiles.push({ level, x, y });
+		}
+	}
+	return tiles;
+}
+
+/** Finest level covering the bounds with at most MAX_TILES_PER_REGION tiles, or null if none does */
+export function levelForBounds(bounds: GeoBounds): number | null {
+	for (let level = MAX_LEVEL; level >= 0; level--) {
+		// Counted rather than listed, a whole continent would be millions of fine tiles
+		const { minX, maxX, minY, maxY } = tileRange(bounds, level);
+		if ((maxX - minX + 1) * (maxY - minY + 1) <= MAX_TILES_PER_REGION) {
+			return level;
+		}
+	}
+	return null;
+}
+
+/** In-memory record of which tiles have been fetched or are being fetched */
+export class TileCache {
+	private loaded = new Set<string>();
+	private pending = new Set<string>();
+
+	/** True if the tile or any tile containing it has been loaded */
+	isLoaded(tile: Tile): boolean {
+		let { level, x, y } = tile;
+		while (level >= 0) {
+			if (this.loaded.has(tileKey({ level, x, y }))) return true;
+			level--;
+			x = Math.floor(x / 2);
+			y = Math.floor(y / 2);
+		}
+		return false;
+	}
+
+	/**
+	 * Tiles covering the bounds that are neither loaded nor in flight.
+	 * Returns null if the bounds are too large to load tile by tile.
+	 */
+	missingTiles(bounds: GeoBounds): Tile[] | null {
+		const level = levelForBounds(bounds);
+		if (level === null) return null;
+
+		return tilesForBounds(bounds, level).filter(
+			(tile) => !this.isLoaded(tile) && !this.pending.has(tileKey(tile))
+		);
+	}
+
+	markPending(tile: Tile): void {
+		this.pending.add(tileKey(tile));
+	}
+
+	/**
+	 * Once all four tiles of a parent are loaded the parent counts as loaded
+	 * too, so zooming back out doesn't fetch the same cafes again.
+	 */
+	markLoaded(tile: Tile): void {
+		this.pending.delete(tileKey(tile));
+		this.loaded.add(tileKey(tile));
+
+		let { level, x, y } = tile;
+		while (level > 0) {
+			const parent = { level: level - 1, x: Math.floor(x / 2), y: Math.floor(y / 2) };
+			const children = [0, 1].flatMap((dx) => [0, 1].map((dy) => ({ level, x: parent.x * 2 + dx, y: parent.y * 2 + dy })));
+			if (!children.every((child) => this.loaded.has(tileKey(child)))) break;
+			this.loaded.add(tileKey(parent));
+			({ level, x, y } = parent);
+		}
+	}
+
+	/** Forget an in-flight tile so the next region change retries it */
+	markFailed(tile: Tile): void {
+		this.pending.delete(tileKey(tile));
+	}
+
+	get isLoading(): boolean {
+		return this.pending.size > 0;
+	}
+}
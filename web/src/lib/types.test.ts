@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { findDrinkPrice, findEspressoPrice } from './types';
+
+const drinks = [
+	{ name: 'Doppio', price: 3.2 },
+	{ name: 'Latte Macchiato', price: 4.2 },
+	{ name: 'Latte', price: 3.9 },
+	{ name: 'Espresso', price: 2.4 }
+];
+
+describe('findDrinkPrice', () => {
+	it('matches on the canonical drink id', () => {
+		expect(findDrinkPrice(drinks, 'Double Espresso')).toBe(3.2);
+		expect(findDrinkPrice(drinks, 'caffè latte')).toBe(3.9);
+	});
+
+	it('does not fall back to substring matches', () => {
+		expect(findDrinkPrice(drinks, 'Macchiato')).toBeNull();
+		expect(findDrinkPrice([{ name: 'Espresso Tonic', price: 4.5 }], 'Espresso')).toBeNull();
+	});
+
+	it('matches unknown drinks by normalized name', () => {
+		expect(findDrinkPrice([{ name: 'Chai Latté', price: 4.1 }], 'chai latte')).toBe(4.1);
+	});
+});
+
+describe('findEspressoPrice', () => {
+	it('finds a single espresso, not a doppio', () => {
+		expect(findEspressoPrice(drinks)).toBe(2.4);
+		expect(findEspressoPrice([{ name: 'Doppio', price: 3.2 }])).toBeNull();
+	});
+});
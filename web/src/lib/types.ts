@@ -1,3 +1,5 @@
+import { canonicalDrinkId } from 'shared/drinks';
+
 export interface Cafe {
 	id: string;
 	recordName: string;
@@ -9,6 +11,14 @@ export interface Cafe {
 	currentPrice: number | null;
 }
 
+/** A latitude/longitude bounding box in degrees */
+export interface GeoBounds {
+	minLatitude: number;
+	maxLatitude: number;
+	minLongitude: number;
+	maxLongitude: number;
+}
+
 export interface DrinkPrice {
 	name: string;
 	price: number;
@@ -27,22 +37,13 @@ export interface PriceRecord {
 }
 
 export function findEspressoPrice(drinks: DrinkPrice[]): number | null {
-	const exact = drinks.find((d) => d.name.toLowerCase() === 'espresso');
-	if (exact) return exact.price;
-
-	const partial = drinks.find((d) => {
-		const name = d.name.toLowerCase();
-		return name.includes('espresso') && !name.includes('double') && !name.includes('doppio');
-	});
-	return partial?.price ?? null;
+	return findDrinkPrice(drinks, 'Espresso');
 }
 
+/** Price of the drink in `drinks` with the same canonical id as `drinkName`, e.g. "Double Espresso" finds "Doppio" */
 export function findDrinkPrice(drinks: DrinkPrice[], drinkName: string): number | null {
-	const exact = drinks.find((d) => d.name.toLowerCase() === drinkName.toLowerCase());
-	if (exact) return exact.price;
-
-	const partial = drinks.find((d) => d.name.toLowerCase().includes(drinkName.toLowerCase()));
-	return partial?.price ?? null;
+	const id = canonicalDrinkId(drinkName);
+	return drinks.find((d) => canonicalDrinkId(d.name) === id)?.price ?? null;
 }
 
 export type PriceCategory = 'cheap' | 'medium' | 'expensive' | 'very-expensive' | 'no-price';
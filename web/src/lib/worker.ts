@@ -0,0 +1,58 @@
+import { z } from 'zod/v4';
+
+/** An error response from the price extraction worker */
+export class WorkerError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly code?: string
+	) {
+		super(message);
+		this.name = 'WorkerError';
+	}
+}
+
+/** The worker's error envelope: `error` is a short summary, `message` the details when there are any */
+const errorResponseSchema = z.object({
+	error: z.string(),
+	code: z.string().optional(),
+	message: z.string().optional()
+});
+
+export interface WorkerRequestOptions {
+	workerUrl: string;
+	/** Sign in with Apple identity token, for endpoints that require one */
+	identityToken?: string;
+	method?: 'GET' | 'POST';
+	body?: BodyInit;
+	fetch?: typeof fetch;
+}
+
+/**
+ * Call a worker endpoint and validate its JSON response. Error responses are
+ * thrown as `WorkerError` carrying the worker's message and error code.
+ */
+export async function workerRequest<T>(path: string, schema: z.ZodType<T>, options: WorkerRequestOptions): Promise<T> {
+	const { workerUrl, identityToken, method = 'GET', body, fetch: fetchFn = fetch } = options;
+
+	const headers: Record<string, string> = {};
+	if (identityToken) headers.Authorization = `Bearer ${identityToken}`;
+	if (typeof body === 'string') headers['Content-Type'] = 'application/json';
+
+	const response = await fetchFn(new URL(path, workerUrl), { method, headers, body });
+	const json: unknown = await response.json().catch(() => null);
+
+	if (!response.ok) {
+		const parsed = errorResponseSchema.safeParse(json);
+		const message = parsed.success
+			? (parsed.data.message ?? parsed.data.error)
+			: `Request to ${path} failed with status ${response.status}`;
+		throw new WorkerError(message, response.status, parsed.data?.code);
+	}
+
+	const parsed = schema.safeParse(json);
+	if (!parsed.success) {
+		throw new WorkerError(`Unexpected response from ${path}`, response.status);
+	}
+	return parsed.data;
+}
@@ -0,0 +1,18 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDataSource } from '$lib/server/data';
+import { API_CACHE_CONTROL, parseBounds } from '$lib/server/data-source';
+
+/** GET /api/cafes?bounds=minLat,minLon,maxLat,maxLon */
+export const GET: RequestHandler = async ({ url, setHeaders }) => {
+	const bounds = parseBounds(url.searchParams.get('bounds'));
+	if (bounds === undefined) {
+		error(400, 'Invalid bounds, expected minLatitude,minLongitude,maxLatitude,maxLongitude');
+	}
+
+	const dataSource = await getDataSource();
+	const cafes = await dataSource.listCafes(bounds ?? undefined);
+
+	setHeaders({ 'cache-control': API_CACHE_CONTROL });
+	return json(cafes);
+};
@@ -0,0 +1,16 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDataSource } from '$lib/server/data';
+import { API_CACHE_CONTROL } from '$lib/server/data-source';
+
+export const GET: RequestHandler = async ({ params, setHeaders }) => {
+	const dataSource = await getDataSource();
+
+	const cafe = await dataSource.getCafe(params.recordName);
+	if (!cafe) {
+		error(404, 'Cafe not found');
+	}
+
+	setHeaders({ 'cache-control': API_CACHE_CONTROL });
+	return json(cafe);
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { setDataSource } from '$lib/server/data';
+import { FixtureDataSource, fixtureCafes } from '$lib/server/fixture';
+import { API_CACHE_CONTROL } from '$lib/server/data-source';
+import { GET as listCafes } from './+server';
+import { GET as getCafe } from './[recordName]/+server';
+import { GET as listPrices } from './[recordName]/prices/+server';
+
+/** Call a GET handler with just the parts of the event the API routes use */
+async function get<Event>(
+	handler: (event: Event) => Response | Promise<Response>,
+	path: string,
+	params: Record<string, string> = {}
+): Promise<{ response: Response; headers: Record<string, string> }> {
+	const headers: Record<string, string> = {};
+	const event = {
+		url: new URL(path, 'http://localhost'),
+		params,
+		setHeaders: (values: Record<string, string>) => Object.assign(headers, values)
+	} as Event;
+	return { response: await handler(event), headers };
+}
+
+beforeEach(() => {
+	setDataSource(new FixtureDataSource());
+});
+
+afterAll(() => {
+	setDataSource(null);
+});
+
+describe('GET /api/cafes', () => {
+	it('lists every cafe with a cache header', async () => {
+		const { response, headers } = await get(listCafes, '/api/cafes');
+
+		const cafes = await response.json();
+		expect(cafes.map((cafe: { recordName: string }) => cafe.recordName)).toEqual(fixtureCafes.map((cafe) => cafe.recordName));
+		expect(headers['cache-control']).toBe(API_CACHE_CONTROL);
+	});
+
+	it('filters by bounds', async () => {
+		// Around Glockenbach only, Lehel is ~1.5 km further north-east
+		const { response } = await get(listCafes, '/api/cafes?bounds=48.13,11.56,48.135,11.575');
+
+		expect((await response.json()).map((cafe: { recordName: string }) => cafe.recordName)).toEqual(['fixture-cafe-glockenbach']);
+	});
+
+	it('returns an empty list for bounds without cafes', async () => {
+		const { response } = await get(listCafes, '/api/cafes?bounds=52.4,13.3,52.6,13.5');
+
+		expect(await response.json()).toEqual([]);
+	});
+
+	it.each(['48.13,11.56,48.135', '48.13,11.56,north,11.575', '48.2,11.56,48.1,11.575'])('rejects bounds %s', async (bounds) => {
+		await expect(get(listCafes, `/api/cafes?bounds=${bounds}`)).rejects.toMatchObject({ status: 400 });
+	});
+});
+
+describe('GET /api/cafes/[recordName]', () => {
+	it('returns the cafe', async () => {
+		const { response } = await get(getCafe, '/api/cafes/fixture-cafe-lehel', { recordName: 'fixture-cafe-lehel' });
+
+		expect(await response.json()).toMatchObject({ recordName: 'fixture-cafe-lehel', name: 'Café Lehel' });
+	});
+
+	it('is a 404 for an unknown cafe', async () => {
+		await expect(get(getCafe, '/api/cafes/missing', { recordName: 'missing' })).rejects.toMatchObject({
+			status: 404,
+			body: { message: 'Cafe not found' }
+		});
+	});
+});
+
+describe('GET /api/cafes/[recordName]/prices', () => {
+	it('returns the price records newest first', async () => {
+		const { response, headers } = await get(listPrices, '/api/cafes/fixture-cafe-lehel/prices', {
+			recordName: 'fixture-cafe-lehel'
+		});
+
+		const records = await response.json();
+		expect(records.map((record: { recordName: string }) => record.recordName)).toEqual(['fixture-price-2', 'fixture-price-1']);
+		expect(records[0].date).toBe('2026-01-10T09:00:00.000Z');
+		expect(headers['cache-control']).toBe(API_CACHE_CONTROL);
+	});
+
+	it('is a 404 for an unknown cafe', async () => {
+		await expect(get(listPrices, '/api/cafes/missing/prices', { recordName: 'missing' })).rejects.toMatchObject({ status: 404 });
+	});
+});
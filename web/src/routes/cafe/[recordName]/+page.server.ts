@@ -0,0 +1,23 @@
+import { error } from '@sveltejs/kit';
+import { canonicalDrinkName } from 'shared/drinks';
+import type { PageServerLoad } from './$types';
+import { getDataSource } from '$lib/server/data';
+import { API_CACHE_CONTROL } from '$lib/server/data-source';
+
+export const load: PageServerLoad = async ({ params, url, setHeaders }) => {
+	const dataSource = await getDataSource();
+
+	const cafe = await dataSource.getCafe(params.recordName);
+	if (!cafe) {
+		error(404, 'Cafe not found');
+	}
+
+	const priceHistory = await dataSource.listPriceRecords(cafe.recordName);
+
+	setHeaders({ 'cache-control': API_CACHE_CONTROL });
+	return {
+		cafe,
+		priceHistory,
+		drinkName: canonicalDrinkName(url.searchParams.get('drink') ?? 'Espresso')
+	};
+};
@@ -0,0 +1,247 @@
+// Sign in with Apple identity token verification with a cached JWKS
+
+export const APPLE_ISSUER = 'https://appleid.apple.com';
+export const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+
+// Tolerance for exp/iat checks against our clock
+const CLOCK_SKEW_SECONDS = 60;
+// Used when the JWKS response has no usable Cache-Control max-age
+const DEFAULT_JWKS_TTL_SECONDS = 60 * 60;
+// Minimum time between forced refetches for an unknown kid, so garbage tokens can't hammer Apple
+const MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+export interface AppleTokenPayload {
+	iss: string;
+	aud: string;
+	exp: number;
+	iat: number;
+	sub: string;
+	email?: string;
+}
+
+interface JwtHeader {
+	alg: string;
+	kid: string;
+}
+
+export type AppleTokenErrorReason =
+	| 'malformed'
+	| 'unsupported_alg'
+	| 'unknown_kid'
+	| 'invalid_signature'
+	| 'invalid_issuer'
+	| 'invalid_audience'
+	| 'expired'
+	| 'issued_in_future'
+	| 'invalid_claims';
+
+export class AppleTokenError extends Error {
+	constructor(readonly reason: AppleTokenErrorReason) {
+		super(`Apple token rejected: ${reason}`);
+		this.name = 'AppleTokenError';
+	}
+}
+
+// Apple's keys couldn't be loaded and none were cached, so no token can be checked right now
+export class JwksUnavailableError extends Error {
+	constructor() {
+		super('Apple public keys are unavailable');
+		this.name = 'JwksUnavailableError';
+	}
+}
+
+interface JwksEntry {
+	keys: Map<string, JsonWebKey>;
+	expiresAt: number;
+}
+
+export interface JwksCacheOptions {
+	url?: string;
+	fetch?: typeof fetch;
+	// Cache API store shared across isolates; null disables it
+	cache?: Cache | null;
+	now?: () => number;
+}
+
+// Seconds the response may be cached for, or null if it must not be cached
+function maxAgeSeconds(response: Response): number | null {
+	const cacheControl = response.headers.get('Cache-Control') ?? '';
+	if (/no-store|no-cache/i.test(cacheControl)) {
+		return null;
+	}
+	const match = cacheControl.match(/(?:^|,)\s*max-age=(\d+)/i);
+	return match ? Number(match[1]) : DEFAULT_JWKS_TTL_SECONDS;
+}
+
+// Apple JWKS cached in memory and in the Cache API, honoring the response's Cache-Control
+export class JwksCache {
+	private readonly url: string;
+	private readonly fetcher: typeof fetch;
+	private readonly cache: Cache | null;
+	private readonly now: () => number;
+	private entry: JwksEntry | null = null;
+	private cryptoKeys = new Map<string, Promise<CryptoKey>>();
+	private lastNetworkFetch = -Infinity;
+
+	constructor(options: JwksCacheOptions = {}) {
+		this.url = options.url ?? APPLE_JWKS_URL;
+		this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+		this.cache = options.cache === undefined ? caches.default : options.cache;
+		this.now = options.now ?? Date.now;
+	}
+
+	// Throws JwksUnavailableError only when Apple can't be reached and no key set, however stale, is at hand
+	async getKey(kid: string): Promise<CryptoKey | null> {
+		// While Apple is unreachable a stale key set keeps working, retried at most once per interval
+		const canRefetch = !this.entry || this.now() - this.lastNetworkFetch >= MIN_REFETCH_INTERVAL_MS;
+		if (!this.entry || (this.entry.expiresAt <= this.now() && canRefetch)) {
+			this.entry = (await this.readCache()) ?? (await this.fetchNetwork()) ?? this.entry;
+		}
+		if (!this.entry) {
+			throw new JwksUnavailableError();
+		}
+
+		// Apple rotates keys; an unknown kid means our copy may be stale
+		if (!this.entry.keys.has(kid) && this.now() - this.lastNetworkFetch >= MIN_REFETCH_INTERVAL_MS) {
+			this.entry = (await this.fetchNetwork()) ?? this.entry;
+		}
+
+		const jwk = this.entry.keys.get(kid);
+		if (!jwk) {
+			return null;
+		}
+
+		let key = this.cryptoKeys.get(kid);
+		if (!key) {
+			key = crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+			this.cryptoKeys.set(kid, key);
+		}
+		return key;
+	}
+
+	private async readCache(): Promise<JwksEntry | null> {
+		const cached = await this.cache?.match(this.url);
+		if (!cached) {
+			return null;
+		}
+		const entry = await this.toEntry(cached);
+		return entry && entry.expiresAt > this.now() ? entry : null;
+	}
+
+	// Null when Apple can't be reached or answers with an error, so callers can keep their current keys
+	private async fetchNetwork(): Promise<JwksEntry | null> {
+		this.lastNetworkFetch = this.now();
+		let response: Response;
+		try {
+			response = await this.fetcher(this.url);
+		} catch (error) {
+			console.error('Failed to fetch Apple public keys:', error);
+			return null;
+		}
+		if (!response.ok) {
+			console.error(`Failed to fetch Apple public keys: ${response.status}`);
+			return null;
+		}
+
+		if (this.cache && maxAgeSeconds(response) !== null) {
+			await this.cache.put(this.url, response.clone());
+		}
+		this.cryptoKeys.clear();
+		return this.toEntry(response);
+	}
+
+	private async toEntry(response: Response): Promise<JwksEntry | null> {
+		const body = (await response.json()) as { keys?: (JsonWebKey & { kid?: string })[] };
+		if (!Array.isArray(body.keys)) {
+			return null;
+		}
+
+		const keys = new Map<string, JsonWebKey>();
+		for (const key of body.keys) {
+			if (key.kid && key.kty === 'RSA' && (!key.alg || key.alg === 'RS256')) {
+				keys.set(key.kid, key);
+			}
+		}
+
+		// Expiry is measured from the response's Date so a Cache API hit keeps its original lifetime
+		const maxAge = maxAgeSeconds(response) ?? 0;
+		const date = Date.parse(response.headers.get('Date') ?? '');
+		const fetchedAt = Number.isNaN(date) ? this.now() : Math.min(date, this.now());
+		return { keys, expiresAt: fetchedAt + maxAge * 1000 };
+	}
+}
+
+function decodeBase64Url(segment: string): Uint8Array {
+	const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+	return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (c) => c.charCodeAt(0));
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> {
+	try {
+		const value = JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+		if (value && typeof value === 'object' && !Array.isArray(value)) {
+			return value;
+		}
+	} catch {
+		// Fall through
+	}
+	throw new AppleTokenError('malformed');
+}
+
+function validateClaims(payload: Record<string, unknown>, audiences: string[], nowSeconds: number): AppleTokenPayload {
+	const { iss, aud, exp, iat, sub } = payload;
+	if (typeof exp !== 'number' || typeof iat !== 'number' || typeof sub !== 'string' || sub === '') {
+		throw new AppleTokenError('invalid_claims');
+	}
+	if (iss !== APPLE_ISSUER) {
+		throw new AppleTokenError('invalid_issuer');
+	}
+	if (typeof aud !== 'string' || !audiences.includes(aud)) {
+		throw new AppleTokenError('invalid_audience');
+	}
+	if (exp + CLOCK_SKEW_SECONDS <= nowSeconds) {
+		throw new AppleTokenError('expired');
+	}
+	if (iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+		throw new AppleTokenError('issued_in_future');
+	}
+	return payload as unknown as AppleTokenPayload;
+}
+
+// Verify an Apple ID token against the JWKS, throwing AppleTokenError when it is rejected
+export async function verifyAppleToken(
+	token: string,
+	audiences: string[],
+	jwks: JwksCache,
+	now: () => number = Date.now,
+): Promise<AppleTokenPayload> {
+	const segments = token.split('.');
+	if (segments.length !== 3 || segments.some((segment) => !/^[A-Za-z0-9_-]+$/.test(segment))) {
+		throw new AppleTokenError('malformed');
+	}
+	const [headerB64, payloadB64, signatureB64] = segments;
+
+	const header = decodeJsonSegment(headerB64) as Partial<JwtHeader>;
+	if (header.alg !== 'RS256') {
+		throw new AppleTokenError('unsupported_alg');
+	}
+	if (typeof header.kid !== 'string') {
+		throw new AppleTokenError('malformed');
+	}
+
+	// Cheap claim checks first so bad tokens never trigger a JWKS fetch
+	const payload = validateClaims(decodeJsonSegment(payloadB64), audiences, Math.floor(now() / 1000));
+
+	const key = await jwks.getKey(header.kid);
+	if (!key) {
+		throw new AppleTokenError('unknown_kid');
+	}
+
+	const data = new TextEncoder().encode(`${headerB64}.${payloadB64}`);
+	const isValid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, decodeBase64Url(signatureB64), data);
+	if (!isValid) {
+		throw new AppleTokenError('invalid_signature');
+	}
+
+	return payload;
+}
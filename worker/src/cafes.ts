@@ -0,0 +1,168 @@
+import { canonicalDrinkId } from 'shared/drinks';
+import { z } from 'zod/v4';
+import { CLOUDKIT_BATCH_SIZE, type CloudKitDatabase, type CloudKitOperation, type CloudKitRecord } from './cloudkit';
+import { ApiError, parseJsonBody } from './http';
+
+// Moderator changes to cafes: fixing a cafe's details and merging a duplicate into the cafe to keep
+
+const ESPRESSO_ID = canonicalDrinkId('Espresso');
+
+const recordNameSchema = z.string().min(1).max(255);
+
+export const cafeUpdateRequestSchema = z.object({
+	recordName: recordNameSchema,
+	name: z.string().trim().min(1).max(200),
+	address: z.string().trim().max(500),
+	latitude: z.number().min(-90).max(90),
+	longitude: z.number().min(-180).max(180),
+});
+
+export type CafeUpdateRequest = z.infer<typeof cafeUpdateRequestSchema>;
+
+export const cafeMergeRequestSchema = z
+	.object({
+		keepRecordName: recordNameSchema,
+		duplicateRecordName: recordNameSchema,
+	})
+	.refine((request) => request.keepRecordName !== request.duplicateRecordName, {
+		message: "A cafe can't be merged into itself",
+		path: ['duplicateRecordName'],
+	});
+
+export type CafeMergeRequest = z.infer<typeof cafeMergeRequestSchema>;
+
+export interface MergeOutcome {
+	// Price records moved from the duplicate to the kept cafe
+	moved: number;
+	// The kept cafe's espresso price after the merge, null if no record has one
+	currentPrice: number | null;
+}
+
+export function parseCafeUpdateRequest(request: Request): Promise<CafeUpdateRequest> {
+	return parseJsonBody(request, cafeUpdateRequestSchema);
+}
+
+export function parseCafeMergeRequest(request: Request): Promise<CafeMergeRequest> {
+	return parseJsonBody(request, cafeMergeRequestSchema);
+}
+
+async function getCafe(database: CloudKitDatabase, recordName: string): Promise<CloudKitRecord> {
+	const [cafe] = await database.lookup([recordName]);
+	if (!cafe || cafe.recordType !== 'Cafe') {
+		throw new ApiError(404, 'NOT_FOUND', 'Cafe not found', `No cafe with record name ${recordName}`);
+	}
+	return cafe;
+}
+
+function priceRecordsOf(database: CloudKitDatabase, cafeRecordName: string): Promise<CloudKitRecord[]> {
+	return database.query({
+		recordType: 'PriceRecord',
+		filterBy: [
+			{
+				fieldName: 'cafeReference',
+				comparator: 'EQUALS',
+				fieldValue: { value: { recordName: cafeRecordName }, type: 'REFERENCE' },
+			},
+		],
+	});
+}
+
+function espressoPrice(record: CloudKitRecord): number | null {
+	const drinksJSON = record.fields.drinksJSON?.value;
+	if (typeof drinksJSON === 'string') {
+		try {
+			const drinks = JSON.parse(drinksJSON) as { name?: unknown; price?: unknown }[];
+			const espresso = drinks.find((drink) => typeof drink.name === 'string' && canonicalDrinkId(drink.name) === ESPRESSO_ID);
+			if (typeof espresso?.price === 'number') {
+				return espresso.price;
+			}
+		} catch {
+			// Fall back to the legacy price like the apps do
+		}
+	}
+	// Records from before drinksJSON only have an espresso price; 0 is a placeholder
+	const legacy = record.fields.price?.value;
+	return typeof legacy === 'number' && legacy > 0 ? legacy : null;
+}
+
+// Espresso price of the newest price record that has one, the cafe's `currentPrice`
+export function latestEspressoPrice(records: CloudKitRecord[]): number | null {
+	const date = (record: CloudKitRecord) => Number(record.fields.date?.value ?? 0);
+	for (const record of [...records].sort((a, b) => date(b) - date(a))) {
+		const price = espressoPrice(record);
+		if (price !== null) {
+			return price;
+		}
+	}
+	return null;
+}
+
+// Update the cafe's name, address and coordinates. The record name and `cafeId` stay, so price records and app links keep working.
+export async function updateCafe(database: CloudKitDatabase, request: CafeUpdateRequest): Promise<void> {
+	const cafe = await getCafe(database, request.recordName);
+	await database.modify([
+		{
+			operationType: 'update',
+			record: {
+				recordName: cafe.recordName,
+				recordType: 'Cafe',
+				recordChangeTag: cafe.recordChangeTag,
+				fields: {
+					name: { value: request.name },
+					address: { value: request.address },
+					latitude: { value: request.latitude, type: 'DOUBLE' },
+					longitude: { value: request.longitude, type: 'DOUBLE' },
+				},
+			},
+		},
+	]);
+}
+
+// Move the duplicate's price records to the cafe to keep, update its current price from the combined history
+// and delete the duplicate. Up to CLOUDKIT_BATCH_SIZE operations this is one atomic request, so a failure
+// leaves both cafes as they were. Longer histories are moved in atomic batches before the duplicate is
+// deleted: a failure part way leaves the duplicate with its remaining records, and merging again finishes it.
+export async function mergeCafes(database: CloudKitDatabase, request: CafeMergeRequest): Promise<MergeOutcome> {
+	const keep = await getCafe(database, request.keepRecordName);
+	await getCafe(database, request.duplicateRecordName);
+	const [kept, moved] = await Promise.all([
+		priceRecordsOf(database, keep.recordName),
+		priceRecordsOf(database, request.duplicateRecordName),
+	]);
+
+	const moves: CloudKitOperation[] = moved.map((record) => ({
+		operationType: 'update',
+		record: {
+			recordName: record.recordName,
+			recordType: 'PriceRecord',
+			recordChangeTag: record.recordChangeTag,
+			fields: { cafeReference: { value: { recordName: keep.recordName, action: 'DELETE_SELF' }, type: 'REFERENCE' } },
+		},
+	}));
+
+	const currentPrice = latestEspressoPrice([...kept, ...moved]);
+	const finish: CloudKitOperation[] = [{ operationType: 'forceDelete', record: { recordName: request.duplicateRecordName } }];
+	if (currentPrice !== null) {
+		finish.unshift({
+			operationType: 'update',
+			record: {
+				recordName: keep.recordName,
+				recordType: 'Cafe',
+				recordChangeTag: keep.recordChangeTag,
+				fields: { currentPrice: { value: currentPrice, type: 'DOUBLE' } },
+			},
+		});
+	}
+
+	// The moves come before the delete, whose DELETE_SELF references would otherwise take the records along
+	if (moves.length + finish.length <= CLOUDKIT_BATCH_SIZE) {
+		await database.modify([...moves, ...finish]);
+	} else {
+		for (let i = 0; i < moves.length; i += CLOUDKIT_BATCH_SIZE) {
+			await database.modify(moves.slice(i, i + CLOUDKIT_BATCH_SIZE));
+		}
+		await database.modify(finish);
+	}
+
+	return { moved: moved.length, currentPrice };
+}
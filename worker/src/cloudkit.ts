@@ -0,0 +1,197 @@
+import { CLOUDKIT_PAGE_SIZE, fetchAllPages } from 'shared/cloudkit';
+
+// Writes to the public CloudKit database with a server-to-server key, for moderator changes that
+// regular iCloud users aren't allowed to make
+
+const CLOUDKIT_API_BASE = 'https://api.apple-cloudkit.com';
+export const DEFAULT_CLOUDKIT_CONTAINER = 'iCloud.com.timokuehne.Espressokarte';
+// CloudKit accepts at most 200 operations per modify request
+export const CLOUDKIT_BATCH_SIZE = 200;
+
+export interface CloudKitEnv {
+	CLOUDKIT_CONTAINER?: string;
+	// "development" or "production" (default)
+	CLOUDKIT_ENVIRONMENT?: string;
+	// Key ID and PKCS #8 PEM private key of a server-to-server key from the CloudKit console
+	CLOUDKIT_KEY_ID?: string;
+	CLOUDKIT_PRIVATE_KEY?: string;
+}
+
+export interface CloudKitConfig {
+	container: string;
+	environment: 'development' | 'production';
+	keyId: string;
+	privateKey: string;
+}
+
+export interface CloudKitField {
+	value: unknown;
+	type?: string;
+}
+
+export interface CloudKitRecord {
+	recordName: string;
+	recordType: string;
+	recordChangeTag?: string;
+	fields: Record<string, CloudKitField>;
+}
+
+export interface CloudKitQuery {
+	recordType: string;
+	filterBy?: { fieldName: string; comparator: string; fieldValue: CloudKitField }[];
+	sortBy?: { fieldName: string; ascending: boolean }[];
+}
+
+export type CloudKitOperation =
+	| { operationType: 'update'; record: CloudKitRecord }
+	| { operationType: 'forceDelete'; record: Pick<CloudKitRecord, 'recordName'> };
+
+// The operations moderator changes need, so tests can swap in an in-memory database
+export interface CloudKitDatabase {
+	// Records that exist, in request order; missing ones are left out
+	lookup(recordNames: string[]): Promise<CloudKitRecord[]>;
+	query(query: CloudKitQuery): Promise<CloudKitRecord[]>;
+	// At most CLOUDKIT_BATCH_SIZE operations, applied atomically: if one fails, none are saved
+	modify(operations: CloudKitOperation[]): Promise<void>;
+}
+
+export class CloudKitError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly serverErrorCode?: string,
+	) {
+		super(message);
+		this.name = 'CloudKitError';
+	}
+}
+
+// Record entries in lookup and modify responses carry an error code instead of fields when they failed
+type RecordResult = CloudKitRecord & { serverErrorCode?: string; reason?: string };
+
+export function cloudKitConfigFromEnv(env: CloudKitEnv): CloudKitConfig | null {
+	if (!env.CLOUDKIT_KEY_ID || !env.CLOUDKIT_PRIVATE_KEY) {
+		return null;
+	}
+	return {
+		container: env.CLOUDKIT_CONTAINER || DEFAULT_CLOUDKIT_CONTAINER,
+		environment: env.CLOUDKIT_ENVIRONMENT === 'development' ? 'development' : 'production',
+		keyId: env.CLOUDKIT_KEY_ID,
+		privateKey: env.CLOUDKIT_PRIVATE_KEY,
+	};
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function importPrivateKey(pem: string): Promise<CryptoKey> {
+	const base64 = pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '').replace(/\s+/g, '');
+	const der = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+	return crypto.subtle.importKey('pkcs8', der, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+}
+
+function derInteger(bytes: Uint8Array): number[] {
+	let start = 0;
+	while (start < bytes.length - 1 && bytes[start] === 0) {
+		start++;
+	}
+	const value = [...bytes.slice(start)];
+	// A set high bit would read as a negative number
+	return [0x02, ...(value[0] & 0x80 ? [value.length + 1, 0, ...value] : [value.length, ...value])];
+}
+
+// WebCrypto returns the raw r || s signature, CloudKit expects it DER encoded like OpenSSL's
+export function toDerSignature(raw: Uint8Array): Uint8Array {
+	const half = raw.length / 2;
+	const sequence = [...derInteger(raw.slice(0, half)), ...derInteger(raw.slice(half))];
+	return new Uint8Array([0x30, sequence.length, ...sequence]);
+}
+
+// The three X-Apple-CloudKit-Request-* headers: key ID, date and a signature over date, body hash and path
+export async function signRequest(
+	config: Pick<CloudKitConfig, 'keyId' | 'privateKey'>,
+	body: string,
+	subpath: string,
+	date: Date,
+): Promise<Record<string, string>> {
+	const isoDate = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+	const bodyHash = encodeBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body))));
+	const key = await importPrivateKey(config.privateKey);
+	const signature = await crypto.subtle.sign(
+		{ name: 'ECDSA', hash: 'SHA-256' },
+		key,
+		new TextEncoder().encode(`${isoDate}:${bodyHash}:${subpath}`),
+	);
+
+	return {
+		'X-Apple-CloudKit-Request-KeyID': config.keyId,
+		'X-Apple-CloudKit-Request-ISO8601Date': isoDate,
+		'X-Apple-CloudKit-Request-SignatureV1': encodeBase64(toDerSignature(new Uint8Array(signature))),
+	};
+}
+
+// The public database through CloudKit Web Services
+export class CloudKitClient implements CloudKitDatabase {
+	constructor(
+		private readonly config: CloudKitConfig,
+		private readonly fetcher: typeof fetch = (input, init) => fetch(input, init),
+		private readonly now: () => Date = () => new Date(),
+	) {}
+
+	private async request<T>(operation: string, payload: unknown): Promise<T> {
+		const subpath = `/database/1/${this.config.container}/${this.config.environment}/public/${operation}`;
+		const body = JSON.stringify(payload);
+		const response = await this.fetcher(`${CLOUDKIT_API_BASE}${subpath}`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...(await signRequest(this.config, body, subpath, this.now())) },
+			body,
+		});
+
+		if (!response.ok) {
+			const error = (await response.json().catch(() => ({}))) as { reason?: string; serverErrorCode?: string };
+			throw new CloudKitError(
+				error.reason ?? `CloudKit request failed with status ${response.status}`,
+				response.status,
+				error.serverErrorCode,
+			);
+		}
+		return response.json() as Promise<T>;
+	}
+
+	async lookup(recordNames: string[]): Promise<CloudKitRecord[]> {
+		const { records } = await this.request<{ records: RecordResult[] }>('records/lookup', {
+			records: recordNames.map((recordName) => ({ recordName })),
+		});
+		return records.filter((record) => !record.serverErrorCode);
+	}
+
+	query(query: CloudKitQuery): Promise<CloudKitRecord[]> {
+		return fetchAllPages((continuationMarker) =>
+			this.request<{ records: RecordResult[]; continuationMarker?: string }>('records/query', {
+				query,
+				resultsLimit: CLOUDKIT_PAGE_SIZE,
+				continuationMarker,
+			}),
+		);
+	}
+
+	async modify(operations: CloudKitOperation[]): Promise<void> {
+		const { records } = await this.request<{ records: RecordResult[] }>('records/modify', { operations, atomic: true });
+		// In a failed atomic request the other records only report ATOMIC_ERROR, so name the one that caused it
+		const failed =
+			records.find((record) => record.serverErrorCode && record.serverErrorCode !== 'ATOMIC_ERROR') ??
+			records.find((record) => record.serverErrorCode);
+		if (failed) {
+			throw new CloudKitError(
+				`Saving ${failed.recordName} failed: ${failed.reason ?? failed.serverErrorCode}`,
+				failed.serverErrorCode === 'CONFLICT' ? 409 : 500,
+				failed.serverErrorCode,
+			);
+		}
+	}
+}
@@ -0,0 +1,63 @@
+import { flagOutliers, type PriceReference } from './outliers';
+import { extractPrices, type ExtractionProvider } from './providers';
+import { extractWithCache, type ResultCacheOptions } from './result-cache';
+import { normalizeDrink, toExtractionResponse, type ExtractionResponse, type SourcedDrinkPrice } from './schema';
+import type { ExtractImage } from './validation';
+
+export interface ExtractionOptions {
+	providers: ExtractionProvider[];
+	timeoutMs: number;
+	cache: ResultCacheOptions;
+	// Prices to compare the result against; suspicious items get an `outlier` flag
+	reference?: PriceReference | null;
+}
+
+// Progress while the images are read; `image` is the index in upload order
+export type ExtractionEvent =
+	| { event: 'model_started'; data: { image: number; provider: string } }
+	| { event: 'drinks'; data: { image: number; drinks: SourcedDrinkPrice[] } };
+
+export interface ExtractionSummary extends ExtractionResponse {
+	// True when every image was served from the result cache
+	cached: boolean;
+	imageCount: number;
+}
+
+// Extract every image in parallel and merge the results
+export async function runExtraction(
+	images: ExtractImage[],
+	options: ExtractionOptions,
+	onEvent?: (event: ExtractionEvent) => void,
+): Promise<ExtractionSummary> {
+	const extractions = await Promise.all(
+		images.map((image, index) =>
+			extractWithCache(
+				image.bytes,
+				() =>
+					extractPrices(
+						options.providers,
+						{ imageBase64: image.base64, mediaType: image.mediaType },
+						options.timeoutMs,
+						onEvent &&
+							((progress) => {
+								if (progress.type === 'model_started') {
+									onEvent({ event: 'model_started', data: { image: index, provider: progress.provider } });
+								} else {
+									const drinks = progress.drinks.map((drink) => ({ ...normalizeDrink(drink), sourceImage: index }));
+									onEvent({ event: 'drinks', data: { image: index, drinks } });
+								}
+							}),
+					),
+				options.cache,
+			),
+		),
+	);
+
+	const response = toExtractionResponse(extractions.map((extraction) => extraction.result));
+	return {
+		cached: extractions.every((extraction) => extraction.cached),
+		imageCount: images.length,
+		...response,
+		items: flagOutliers(response.items, options.reference ?? null),
+	};
+}
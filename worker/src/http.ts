@@ -0,0 +1,92 @@
+import type { z } from 'zod/v4';
+
+// Shared JSON response and error helpers
+
+export const corsHeaders = {
+	'Access-Control-Allow-Origin': '*',
+	'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+	'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-RateLimit-Policy',
+};
+
+// Machine-readable error codes returned in the `code` field of every error response
+export type ErrorCode =
+	| 'NOT_FOUND'
+	| 'METHOD_NOT_ALLOWED'
+	| 'MISSING_TOKEN'
+	| 'INVALID_TOKEN'
+	| 'AUTH_UNAVAILABLE'
+	| 'FORBIDDEN'
+	| 'RATE_LIMITED'
+	| 'INVALID_REQUEST'
+	| 'PAYLOAD_TOO_LARGE'
+	| 'UNSUPPORTED_MEDIA_TYPE'
+	| 'CONFLICT'
+	| 'INTERNAL_ERROR'
+	| 'SERVICE_UNAVAILABLE'
+	| 'UPSTREAM_ERROR';
+
+// Error envelope. `error` stays a human-readable string because the iOS app decodes it as such.
+export interface ErrorBody {
+	error: string;
+	code: ErrorCode;
+	message?: string;
+}
+
+// Thrown from route handlers and turned into an error response by the router
+export class ApiError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: ErrorCode,
+		readonly error: string,
+		readonly detail?: string,
+		readonly headers: Record<string, string> = {},
+	) {
+		super(detail ?? error);
+		this.name = 'ApiError';
+	}
+}
+
+export function jsonResponse(body: unknown, init: { status?: number; headers?: Record<string, string> } = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status: init.status ?? 200,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json', ...init.headers },
+	});
+}
+
+// Unexpected errors become a generic 500 that still carries the message for debugging
+export function toApiError(error: unknown): ApiError {
+	if (error instanceof ApiError) {
+		return error;
+	}
+	console.error('Error:', error);
+	return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error', error instanceof Error ? error.message : 'Unknown error');
+}
+
+export function errorBody(error: ApiError): ErrorBody {
+	const body: ErrorBody = { error: error.error, code: error.code };
+	if (error.detail) {
+		body.message = error.detail;
+	}
+	return body;
+}
+
+export function errorResponse(error: ApiError): Response {
+	return jsonResponse(errorBody(error), { status: error.status, headers: error.headers });
+}
+
+// Parse and validate a JSON request body, reporting the first problem as a 400
+export async function parseJsonBody<T>(request: Request, schema: z.ZodType<T>): Promise<T> {
+	let json: unknown;
+	try {
+		json = await request.json();
+	} catch {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid JSON body');
+	}
+
+	const parsed = schema.safeParse(json);
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid request body', `${issue.path.join('.') || 'body'}: ${issue.message}`);
+	}
+	return parsed.data;
+}
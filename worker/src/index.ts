@@ -1,287 +1,247 @@
-import { GoogleGenAI } from '@google/genai';
-import { z } from 'zod/v4';
-
-export interface Env {
-	// AI Gateway configuration (BYOK - no API key needed in code)
-	CF_ACCOUNT_ID: string;
-	CF_GATEWAY_ID: string;
-	CF_AIG_TOKEN?: string; // Optional: for authenticated gateway
+import { AppleTokenError, JwksCache, JwksUnavailableError, verifyAppleToken, type AppleTokenPayload } from './apple-auth';
+import { mergeCafes, parseCafeMergeRequest, parseCafeUpdateRequest, updateCafe } from './cafes';
+import { CloudKitClient, CloudKitError, cloudKitConfigFromEnv, type CloudKitDatabase, type CloudKitEnv } from './cloudkit';
+import { runExtraction, type ExtractionOptions } from './extract';
+import { ApiError, errorBody, jsonResponse, toApiError } from './http';
+import { providersFromEnv, timeoutFromEnv, type ProviderEnv } from './providers';
+import { checkIpLimit, checkUserQuota, type RateLimitEnv } from './rate-limit';
+import {
+	hideThresholdFromEnv,
+	listHiddenRecords,
+	listReportEntries,
+	moveReportsToCafe,
+	parseModerationRequest,
+	parseReportRequest,
+	setRecordHidden,
+	submitReport,
+	type ReportStore,
+} from './reports';
+import { ttlFromEnv, type ResultStore } from './result-cache';
+import { Router } from './router';
+import { sseResponse, wantsEventStream } from './sse';
+import { parseExtractRequest } from './validation';
+
+export interface Env extends ProviderEnv, RateLimitEnv, CloudKitEnv {
 	APPLE_APP_BUNDLE_ID: string;
-	PRICE_EXTRACTION_LIMITER: RateLimit;
+	APPLE_SHARE_EXTENSION_BUNDLE_ID?: string;
+	// Services ID used by Sign in with Apple JS on the website
+	APPLE_WEB_SERVICES_ID?: string;
+	// Optional KV namespace caching extraction results by image hash
+	EXTRACTION_CACHE?: ResultStore;
+	EXTRACTION_CACHE_TTL_SECONDS?: string;
+	// Optional KV namespace storing price reports; without it reporting is unavailable
+	REPORTS?: ReportStore;
+	REPORT_HIDE_THRESHOLD?: string;
+	// Comma-separated Apple user IDs allowed to use the /v1/admin endpoints
+	ADMIN_USER_IDS?: string;
+	// CLOUDKIT_KEY_ID and CLOUDKIT_PRIVATE_KEY (secrets) enable the cafe edit and merge endpoints
 }
 
-interface RateLimit {
-	limit(options: { key: string }): Promise<{ success: boolean }>;
-}
+// Hidden records change rarely; a minute keeps newly hidden prices from lingering
+const HIDDEN_RECORDS_CACHE_CONTROL = 'public, max-age=60';
 
-interface AppleTokenPayload {
-	iss: string;
-	aud: string;
-	exp: number;
-	iat: number;
-	sub: string;
-	email?: string;
-}
+// Shared by all requests handled by this isolate
+const appleJwks = new JwksCache();
 
-interface RequestBody {
-	image: string;
-	mediaType?: string;
+// Tokens from the main app, the share extension and the website are all accepted
+function allowedAudiences(env: Env): string[] {
+	const audiences = [env.APPLE_APP_BUNDLE_ID, env.APPLE_SHARE_EXTENSION_BUNDLE_ID, env.APPLE_WEB_SERVICES_ID];
+	return audiences.filter((id): id is string => Boolean(id));
 }
 
-// Zod schema for price extraction
-const drinkPriceSchema = z.object({
-	name: z
-		.string()
-		.describe(
-			'The drink name as shown on the menu, normalized to standard names like "Espresso", "Doppio", "Americano", "Cappuccino", "Flat White", "Latte", "Macchiato", "Cortado", "Mocha", "Filter Coffee" etc.',
-		),
-	price: z.number().describe('The price as a decimal number, e.g. 2.80'),
-});
-
-const priceResultSchema = z.object({
-	drinks: z
-		.array(drinkPriceSchema)
-		.describe(
-			'All coffee drinks found on the menu with their prices. Include espresso, doppio, americano, cappuccino, flat white, latte, macchiato, cortado, mocha, filter coffee, and any other coffee-based drinks. Note: "double espresso" should be normalized to "Doppio".',
-		),
-});
-
-type PriceResult = z.infer<typeof priceResultSchema>;
-// Fetch Apple's public keys for token validation
-async function getApplePublicKeys(): Promise<any> {
-	const response = await fetch('https://appleid.apple.com/auth/keys');
-	if (!response.ok) {
-		throw new Error('Failed to fetch Apple public keys');
+// Verify the Sign in with Apple identity token in the Authorization header
+async function authenticate(request: Request, env: Env): Promise<AppleTokenPayload> {
+	const authHeader = request.headers.get('Authorization');
+	if (!authHeader?.startsWith('Bearer ')) {
+		throw new ApiError(401, 'MISSING_TOKEN', 'Missing authorization token');
 	}
-	return response.json();
-}
-
-// Decode JWT without verification (to get header)
-function decodeJwtHeader(token: string): { kid: string; alg: string } {
-	const [headerB64] = token.split('.');
-	const header = JSON.parse(atob(headerB64.replace(/-/g, '+').replace(/_/g, '/')));
-	return header;
-}
 
-// Decode JWT payload
-function decodeJwtPayload(token: string): AppleTokenPayload {
-	const [, payloadB64] = token.split('.');
-	const payload = JSON.parse(atob(payloadB64.replace(/-/g, '+').replace(/_/g, '/')));
-	return payload;
-}
-
-// Convert JWK to CryptoKey
-async function jwkToCryptoKey(jwk: JsonWebKey): Promise<CryptoKey> {
-	return crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
-}
-
-// Verify Apple ID token
-async function verifyAppleToken(token: string, bundleId: string): Promise<AppleTokenPayload | null> {
+	const token = authHeader.replace('Bearer ', '');
 	try {
-		const header = decodeJwtHeader(token);
-		const payload = decodeJwtPayload(token);
-
-		if (payload.exp * 1000 < Date.now()) {
-			console.error('Token expired');
-			return null;
-		}
-
-		if (payload.iss !== 'https://appleid.apple.com') {
-			console.error('Invalid issuer');
-			return null;
-		}
-
-		if (payload.aud !== bundleId) {
-			console.error('Invalid audience: ', payload.aud);
-			return null;
-		}
-
-		const keysResponse = await getApplePublicKeys();
-		const matchingKey = keysResponse.keys.find((key: any) => key.kid === header.kid);
-
-		if (!matchingKey) {
-			console.error('No matching key found');
-			return null;
+		return await verifyAppleToken(token, allowedAudiences(env), appleJwks);
+	} catch (error) {
+		if (error instanceof AppleTokenError) {
+			console.error(error.message);
+			throw new ApiError(401, 'INVALID_TOKEN', 'Invalid or expired token');
 		}
-
-		const cryptoKey = await jwkToCryptoKey(matchingKey);
-		const [headerB64, payloadB64, signatureB64] = token.split('.');
-		const data = new TextEncoder().encode(`${headerB64}.${payloadB64}`);
-		const signature = Uint8Array.from(atob(signatureB64.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
-
-		const isValid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, signature, data);
-
-		if (!isValid) {
-			console.error('Invalid signature');
-			return null;
+		// An outage at Apple isn't the client's fault, nor our bug
+		if (error instanceof JwksUnavailableError) {
+			throw new ApiError(503, 'AUTH_UNAVAILABLE', 'Authentication unavailable', 'Sign in could not be checked. Please try again shortly.', {
+				'Retry-After': '60',
+			});
 		}
-
-		return payload;
-	} catch (error) {
-		console.error('Token verification failed:', error);
-		return null;
+		throw error;
 	}
 }
 
-// Build AI Gateway base URL for Google AI Studio
-function getAIGatewayBaseUrl(accountId: string, gatewayId: string): string {
-	return `https://gateway.ai.cloudflare.com/v1/${accountId}/${gatewayId}/google-ai-studio`;
+// Verify the token and require a user on the ADMIN_USER_IDS allowlist
+async function authenticateAdmin(request: Request, env: Env): Promise<AppleTokenPayload> {
+	const appleUser = await authenticate(request, env);
+	const adminIds = (env.ADMIN_USER_IDS ?? '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+	if (!adminIds.includes(appleUser.sub)) {
+		throw new ApiError(403, 'FORBIDDEN', 'Not allowed', 'This account is not a moderator');
+	}
+	return appleUser;
 }
 
-// Call Gemini 3 Flash with structured output using Zod schema via AI Gateway
-async function extractPriceFromImage(env: Env, imageBase64: string, mediaType: string): Promise<PriceResult> {
-	const baseUrl = getAIGatewayBaseUrl(env.CF_ACCOUNT_ID, env.CF_GATEWAY_ID);
-
-	// Build headers for AI Gateway authentication (if using authenticated gateway)
-	const headers: Record<string, string> = {};
-	if (env.CF_AIG_TOKEN) {
-		headers['cf-aig-authorization'] = `Bearer ${env.CF_AIG_TOKEN}`;
+function reportStore(env: Env): ReportStore {
+	if (!env.REPORTS) {
+		throw new ApiError(503, 'SERVICE_UNAVAILABLE', 'Reports are not available');
 	}
+	return env.REPORTS;
+}
 
-	// Initialize Google GenAI with AI Gateway base URL
-	// BYOK: API key is stored in AI Gateway
-	const ai = new GoogleGenAI({
-		apiKey: 'empty because of cf byok',
-		httpOptions: {
-			baseUrl,
-			headers,
-		},
-	});
-
-	const response = await ai.models.generateContent({
-		model: 'gemini-3-flash-preview',
-		contents: [
-			{
-				role: 'user',
-				parts: [
-					{
-						inlineData: {
-							mimeType: mediaType,
-							data: imageBase64,
-						},
-					},
-					{
-						text: `Look at this cafe menu image and extract all coffee drink prices you can find.
+// Cafe edits and merges write with the server-to-server key, so the allowlist above is what guards them
+function cloudKitDatabase(env: Env): CloudKitDatabase {
+	const config = cloudKitConfigFromEnv(env);
+	if (!config) {
+		throw new ApiError(503, 'SERVICE_UNAVAILABLE', 'Cafe editing is not available', 'CloudKit server-to-server key is not configured');
+	}
+	return new CloudKitClient(config);
+}
 
-Return a "drinks" array with ALL coffee drinks and their prices. Normalize drink names to standard terms: "Espresso", "Doppio", "Americano", "Cappuccino", "Flat White", "Latte", "Macchiato", "Cortado", "Mocha", "Filter Coffee", etc.
+// A record changed since it was read surfaces as 409 so the moderator can reload; other CloudKit failures as 502
+function fromCloudKitError(error: unknown): never {
+	if (error instanceof CloudKitError) {
+		throw error.status === 409
+			? new ApiError(409, 'CONFLICT', 'Cafe was changed', 'The cafe or its prices changed meanwhile. Reload and try again.')
+			: new ApiError(502, 'UPSTREAM_ERROR', 'CloudKit request failed', error.message);
+	}
+	throw error;
+}
 
-If a drink has size variants, use the smallest/default size price. Return an empty array if no coffee drinks are found.`,
-					},
-				],
-			},
-		],
-		config: {
-			responseMimeType: 'application/json',
-			responseJsonSchema: z.toJSONSchema(priceResultSchema),
+// POST /v1/extract: extract drink prices from menu photos, sent as base64 JSON or multipart/form-data.
+// With `Accept: text/event-stream` progress is streamed and the last event carries the usual response.
+async function handleExtract(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	await checkIpLimit(request, env);
+	const appleUser = await authenticate(request, env);
+	// Validated before the quota, so a rejected body doesn't use up a daily extraction
+	const { images, bypassCache, reference } = await parseExtractRequest(request);
+	const quotaHeaders = await checkUserQuota(env, appleUser.sub);
+
+	const options: ExtractionOptions = {
+		providers: providersFromEnv(env),
+		timeoutMs: timeoutFromEnv(env),
+		cache: {
+			store: env.EXTRACTION_CACHE,
+			ttlSeconds: ttlFromEnv(env.EXTRACTION_CACHE_TTL_SECONDS),
+			bypass: bypassCache,
+			waitUntil: (promise) => ctx.waitUntil(promise),
 		},
-	});
+		reference,
+	};
+	const user = { success: true, userId: appleUser.sub, email: appleUser.email };
 
-	const text = response.text;
-	if (!text) {
-		throw new Error('No response from Gemini');
+	if (!wantsEventStream(request)) {
+		return jsonResponse({ ...user, ...(await runExtraction(images, options)) }, { headers: quotaHeaders });
 	}
 
-	return priceResultSchema.parse(JSON.parse(text));
+	// Auth and validation errors above are still plain JSON responses; from here on errors are events
+	return sseResponse(
+		async (send) => {
+			await send('accepted', { imageCount: images.length });
+			try {
+				const summary = await runExtraction(images, options, ({ event, data }) => void send(event, data));
+				await send('result', { ...user, ...summary });
+			} catch (error) {
+				await send('error', errorBody(toApiError(error)));
+			}
+		},
+		(promise) => ctx.waitUntil(promise),
+		quotaHeaders,
+	);
 }
 
-// Main handler
-export default {
-	async fetch(request: Request, env: Env): Promise<Response> {
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'POST, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-		};
-
-		if (request.method === 'OPTIONS') {
-			return new Response(null, { headers: corsHeaders });
-		}
+// POST /v1/reports: report an incorrect price record. Enough reports from different users hide it.
+async function handleReport(request: Request, env: Env): Promise<Response> {
+	await checkIpLimit(request, env);
+	const appleUser = await authenticate(request, env);
+	const store = reportStore(env);
 
-		if (request.method !== 'POST') {
-			return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-				status: 405,
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-			});
-		}
+	const report = await parseReportRequest(request);
+	const outcome = await submitReport(store, appleUser.sub, report, {
+		threshold: hideThresholdFromEnv(env.REPORT_HIDE_THRESHOLD),
+	});
+	return jsonResponse(outcome, { status: 201 });
+}
 
-		try {
-			const authHeader = request.headers.get('Authorization');
-			if (!authHeader?.startsWith('Bearer ')) {
-				return new Response(JSON.stringify({ error: 'Missing authorization token' }), {
-					status: 401,
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+// GET /v1/reports/hidden: record names of hidden price records, no auth
+async function handleHiddenRecords(_request: Request, env: Env): Promise<Response> {
+	const recordNames = env.REPORTS ? await listHiddenRecords(env.REPORTS) : [];
+	return jsonResponse({ recordNames }, { headers: { 'Cache-Control': HIDDEN_RECORDS_CACHE_CONTROL } });
+}
 
-			const token = authHeader.replace('Bearer ', '');
-			const appleUser = await verifyAppleToken(token, env.APPLE_APP_BUNDLE_ID);
+// GET /v1/admin/reports: every reported or moderated record, for moderators
+async function handleAdminReports(request: Request, env: Env): Promise<Response> {
+	await checkIpLimit(request, env);
+	await authenticateAdmin(request, env);
+	return jsonResponse({ entries: await listReportEntries(reportStore(env)) }, { headers: { 'Cache-Control': 'no-store' } });
+}
 
-			if (!appleUser) {
-				return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
-					status: 401,
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+// POST /v1/admin/records/hide and /restore: hide or restore a price record, for moderators
+function handleSetHidden(hidden: boolean) {
+	return async (request: Request, env: Env): Promise<Response> => {
+		await checkIpLimit(request, env);
+		await authenticateAdmin(request, env);
+		const store = reportStore(env);
 
-			// Rate limiting: 10 requests per minute per user
-			const { success: rateLimitSuccess } = await env.PRICE_EXTRACTION_LIMITER.limit({
-				key: appleUser.sub, // Rate limit by user ID
-			});
+		const entry = await setRecordHidden(store, await parseModerationRequest(request), hidden);
+		return jsonResponse({ entry });
+	};
+}
 
-			if (!rateLimitSuccess) {
-				return new Response(
-					JSON.stringify({
-						error: 'Rate limit exceeded',
-						message: 'Too many requests. Please wait a minute before trying again.',
-					}),
-					{
-						status: 429,
-						headers: {
-							...corsHeaders,
-							'Content-Type': 'application/json',
-							'Retry-After': '60',
-						},
-					},
-				);
-			}
+// POST /v1/admin/cafes/update: fix a cafe's name, address and coordinates, for moderators
+async function handleUpdateCafe(request: Request, env: Env): Promise<Response> {
+	await checkIpLimit(request, env);
+	await authenticateAdmin(request, env);
+	const database = cloudKitDatabase(env);
 
-			const body: RequestBody = await request.json();
+	const update = await parseCafeUpdateRequest(request);
+	await updateCafe(database, update).catch(fromCloudKitError);
+	return jsonResponse({ recordName: update.recordName });
+}
 
-			if (!body.image) {
-				return new Response(JSON.stringify({ error: 'Missing image data' }), {
-					status: 400,
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+// POST /v1/admin/cafes/merge: move a duplicate cafe's prices to the cafe to keep and delete the duplicate, for moderators
+async function handleMergeCafes(request: Request, env: Env): Promise<Response> {
+	await checkIpLimit(request, env);
+	await authenticateAdmin(request, env);
+	const database = cloudKitDatabase(env);
+
+	const merge = await parseCafeMergeRequest(request);
+	const outcome = await mergeCafes(database, merge).catch(fromCloudKitError);
+	// The cafes are merged by now, so a failure here is logged rather than reported as a failed merge
+	if (env.REPORTS) {
+		await moveReportsToCafe(env.REPORTS, merge.duplicateRecordName, merge.keepRecordName).catch((error) =>
+			console.error('Failed to move reports to the merged cafe:', error),
+		);
+	}
+	return jsonResponse(outcome);
+}
 
-			const mediaType = body.mediaType || 'image/jpeg';
+// GET /health: liveness check, no auth
+function handleHealth(): Response {
+	return jsonResponse({ status: 'ok' });
+}
 
-			const priceData = await extractPriceFromImage(env, body.image, mediaType);
+const router = new Router<Env>()
+	.post('/v1/extract', handleExtract)
+	// Released iOS builds post to the root path
+	.post('/', handleExtract)
+	.post('/v1/reports', handleReport)
+	.get('/v1/reports/hidden', handleHiddenRecords)
+	.get('/v1/admin/reports', handleAdminReports)
+	.post('/v1/admin/records/hide', handleSetHidden(true))
+	.post('/v1/admin/records/restore', handleSetHidden(false))
+	.post('/v1/admin/cafes/update', handleUpdateCafe)
+	.post('/v1/admin/cafes/merge', handleMergeCafes)
+	.get('/health', handleHealth);
 
-			return new Response(
-				JSON.stringify({
-					success: true,
-					userId: appleUser.sub,
-					email: appleUser.email,
-					...priceData,
-				}),
-				{
-					status: 200,
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				},
-			);
-		} catch (error) {
-			console.error('Error:', error);
-			return new Response(
-				JSON.stringify({
-					error: 'Internal server error',
-					message: error instanceof Error ? error.message : 'Unknown error',
-				}),
-				{
-					status: 500,
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				},
-			);
-		}
+// Main handler
+export default {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		return router.handle(request, env, ctx);
 	},
 };
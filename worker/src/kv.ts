@@ -0,0 +1,10 @@
+// The KV namespace calls made by the result cache, quota counters and reports, so tests can use an in-memory map
+export interface KvStore {
+	get(key: string, type: 'json'): Promise<unknown>;
+	put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+	delete(key: string): Promise<void>;
+	list(options: { prefix: string; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
+}
+
+// KV rejects an expirationTtl below a minute
+export const MIN_KV_TTL_SECONDS = 60;
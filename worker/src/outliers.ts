@@ -0,0 +1,67 @@
+import { canonicalDrinkId } from 'shared/drinks';
+import { scorePrice, type PriceQuartiles } from 'shared/outliers';
+import { z } from 'zod/v4';
+import type { SourcedDrinkPrice } from './schema';
+
+// What the client knows about prices around the menu being scanned. The worker has no price
+// database of its own, so without this nothing is flagged.
+export const priceReferenceSchema = z.object({
+	// Quartiles per drink name across cafes, as shown on the map
+	stats: z
+		.record(
+			z.string(),
+			z.object({
+				q1: z.number(),
+				median: z.number(),
+				q3: z.number(),
+			}),
+		)
+		.optional(),
+	// Earlier prices at this cafe, any drink
+	history: z
+		.array(
+			z.object({
+				name: z.string(),
+				price: z.number(),
+			}),
+		)
+		.max(500)
+		.optional(),
+});
+
+export type PriceReference = z.infer<typeof priceReferenceSchema>;
+
+function statsByDrinkId(reference: PriceReference): Map<string, PriceQuartiles> {
+	const byId = new Map<string, PriceQuartiles>();
+	for (const [name, stats] of Object.entries(reference.stats ?? {})) {
+		byId.set(canonicalDrinkId(name), stats);
+	}
+	return byId;
+}
+
+function historyByDrinkId(reference: PriceReference): Map<string, number[]> {
+	const byId = new Map<string, number[]>();
+	for (const { name, price } of reference.history ?? []) {
+		const id = canonicalDrinkId(name);
+		byId.set(id, [...(byId.get(id) ?? []), price]);
+	}
+	return byId;
+}
+
+// Mark items whose price looks like a misread, e.g. 28.00 for 2.80. Variants are skipped: quartiles and
+// history are for the plain drink, so a surcharge or a different drink style could be a false alarm.
+export function flagOutliers(items: SourcedDrinkPrice[], reference: PriceReference | null): SourcedDrinkPrice[] {
+	if (!reference) {
+		return items;
+	}
+
+	const stats = statsByDrinkId(reference);
+	const history = historyByDrinkId(reference);
+	return items.map((item) => {
+		if (item.variant) {
+			return item;
+		}
+		const { score, reasons, outlier } = scorePrice(item.price, { stats: stats.get(item.drinkId), history: history.get(item.drinkId) });
+		return outlier ? { ...item, outlier: { score: Math.round(score * 100) / 100, reasons } } : item;
+	});
+}
@@ -0,0 +1,44 @@
+// Pulls finished entries out of a JSON document that is still being streamed
+
+// Complete objects in the top-level "drinks" array of a possibly truncated `{"drinks": [...]}` document
+export function completeDrinkObjects(text: string): unknown[] {
+	const key = text.indexOf('"drinks"');
+	const arrayStart = key === -1 ? -1 : text.indexOf('[', key);
+	if (arrayStart === -1) {
+		return [];
+	}
+
+	const objects: unknown[] = [];
+	let depth = 0;
+	let objectStart = -1;
+	let inString = false;
+	let escaped = false;
+
+	for (let i = arrayStart + 1; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === '\\') escaped = true;
+			else if (char === '"') inString = false;
+			continue;
+		}
+
+		if (char === '"') {
+			inString = true;
+		} else if (char === '{' || char === '[') {
+			if (depth === 0) objectStart = i;
+			depth++;
+		} else if (char === '}' || char === ']') {
+			if (depth === 0) break; // End of the drinks array
+			depth--;
+			if (depth === 0 && char === '}') {
+				try {
+					objects.push(JSON.parse(text.slice(objectStart, i + 1)));
+				} catch {
+					// Not valid JSON after all; the final parse will report it
+				}
+			}
+		}
+	}
+	return objects;
+}
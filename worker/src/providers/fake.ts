@@ -0,0 +1,33 @@
+import type { PriceResult } from '../schema';
+import type { ExtractionProvider } from './types';
+
+const FAKE_CHUNK_SIZE = 24;
+
+export const FAKE_PRICE_RESULT: PriceResult = {
+	drinks: [
+		{ name: 'Espresso', price: 2.5, currency: 'EUR', confidence: 0.95, rawText: 'Espresso 2,50' },
+		{ name: 'Cappuccino', price: 3.8, size: 'klein', volumeMl: 200, currency: 'EUR', confidence: 0.9, rawText: 'Cappuccino 0,2l 3,80' },
+		{ name: 'Cappuccino', price: 4.6, size: 'groß', volumeMl: 300, currency: 'EUR', confidence: 0.9, rawText: 'Cappuccino 0,3l 4,60' },
+		{ name: 'Cappuccino', price: 4.3, size: 'klein', volumeMl: 200, variant: 'Oat milk', currency: 'EUR', confidence: 0.7, rawText: 'Hafermilch +0,50' },
+		{ name: 'Flat White', price: 4.2, currency: 'EUR', confidence: 0.9, rawText: 'Flat White 4,20' },
+	],
+};
+
+// Deterministic provider for tests and local development; never calls a model
+export class FakeProvider implements ExtractionProvider {
+	readonly name = 'fake';
+
+	constructor(private readonly result: unknown = FAKE_PRICE_RESULT) {}
+
+	async extract(): Promise<unknown> {
+		return structuredClone(this.result);
+	}
+
+	// Serialized output in small fixed-size chunks, like a model streaming tokens
+	async *extractStream(): AsyncIterable<string> {
+		const text = JSON.stringify(this.result);
+		for (let i = 0; i < text.length; i += FAKE_CHUNK_SIZE) {
+			yield text.slice(i, i + FAKE_CHUNK_SIZE);
+		}
+	}
+}
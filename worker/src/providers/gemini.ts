@@ -0,0 +1,91 @@
+import { GoogleGenAI } from '@google/genai';
+import { z } from 'zod/v4';
+import { extractionPrompt, priceResultSchema } from '../schema';
+import type { ExtractionInput, ExtractionProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export interface GeminiConfig {
+	accountId: string;
+	gatewayId: string;
+	gatewayToken?: string;
+	model?: string;
+}
+
+// Build AI Gateway base URL for Google AI Studio
+function getAIGatewayBaseUrl(accountId: string, gatewayId: string): string {
+	return `https://gateway.ai.cloudflare.com/v1/${accountId}/${gatewayId}/google-ai-studio`;
+}
+
+// Gemini with structured output using the Zod schema via AI Gateway
+export class GeminiProvider implements ExtractionProvider {
+	readonly name = 'gemini';
+
+	constructor(private readonly config: GeminiConfig) {}
+
+	async extract(input: ExtractionInput, signal: AbortSignal): Promise<unknown> {
+		const response = await this.client().models.generateContent(this.request(input, signal));
+
+		const text = response.text;
+		if (!text) {
+			throw new Error('No response from Gemini');
+		}
+
+		return JSON.parse(text);
+	}
+
+	async *extractStream(input: ExtractionInput, signal: AbortSignal): AsyncIterable<string> {
+		const stream = await this.client().models.generateContentStream(this.request(input, signal));
+		for await (const chunk of stream) {
+			if (chunk.text) {
+				yield chunk.text;
+			}
+		}
+	}
+
+	private client(): GoogleGenAI {
+		const baseUrl = getAIGatewayBaseUrl(this.config.accountId, this.config.gatewayId);
+
+		// Build headers for AI Gateway authentication (if using authenticated gateway)
+		const headers: Record<string, string> = {};
+		if (this.config.gatewayToken) {
+			headers['cf-aig-authorization'] = `Bearer ${this.config.gatewayToken}`;
+		}
+
+		// BYOK: API key is stored in AI Gateway
+		return new GoogleGenAI({
+			apiKey: 'empty because of cf byok',
+			httpOptions: {
+				baseUrl,
+				headers,
+			},
+		});
+	}
+
+	private request({ imageBase64, mediaType }: ExtractionInput, signal: AbortSignal) {
+		return {
+			model: this.config.model ?? DEFAULT_GEMINI_MODEL,
+			contents: [
+				{
+					role: 'user',
+					parts: [
+						{
+							inlineData: {
+								mimeType: mediaType,
+								data: imageBase64,
+							},
+						},
+						{
+							text: extractionPrompt,
+						},
+					],
+				},
+			],
+			config: {
+				responseMimeType: 'application/json',
+				responseJsonSchema: z.toJSONSchema(priceResultSchema),
+				abortSignal: signal,
+			},
+		};
+	}
+}
@@ -0,0 +1,151 @@
+import { completeDrinkObjects } from '../partial-json';
+import { drinkPriceSchema, priceResultSchema, type DrinkPrice, type PriceResult } from '../schema';
+import { FakeProvider } from './fake';
+import { GeminiProvider } from './gemini';
+import { OpenAiCompatibleProvider } from './openai';
+import type { ExtractionInput, ExtractionProvider } from './types';
+import { WorkersAiProvider, type WorkersAi } from './workers-ai';
+
+export type { ExtractionInput, ExtractionProvider } from './types';
+
+export type ProviderName = 'gemini' | 'workers-ai' | 'openai' | 'fake';
+
+export const DEFAULT_EXTRACTION_TIMEOUT_MS = 30_000;
+
+// Reported while a provider runs, for streaming clients
+export type ExtractionProgress = { type: 'model_started'; provider: string } | { type: 'partial'; drinks: DrinkPrice[] };
+
+// Env variables read when building providers
+export interface ProviderEnv {
+	// AI Gateway configuration (BYOK - no API key needed in code)
+	CF_ACCOUNT_ID: string;
+	CF_GATEWAY_ID: string;
+	CF_AIG_TOKEN?: string; // Optional: for authenticated gateway
+	GEMINI_MODEL?: string;
+	// Workers AI binding, required for the "workers-ai" provider
+	AI?: WorkersAi;
+	WORKERS_AI_MODEL?: string;
+	// OpenAI-compatible endpoint, required for the "openai" provider
+	OPENAI_BASE_URL?: string;
+	OPENAI_API_KEY?: string;
+	OPENAI_MODEL?: string;
+	// Provider selection, defaults to "gemini" with no fallback
+	EXTRACTION_PROVIDER?: string;
+	EXTRACTION_FALLBACK_PROVIDER?: string;
+	EXTRACTION_TIMEOUT_MS?: string;
+}
+
+export function createProvider(name: string, env: ProviderEnv): ExtractionProvider {
+	switch (name as ProviderName) {
+		case 'gemini':
+			return new GeminiProvider({
+				accountId: env.CF_ACCOUNT_ID,
+				gatewayId: env.CF_GATEWAY_ID,
+				gatewayToken: env.CF_AIG_TOKEN,
+				model: env.GEMINI_MODEL,
+			});
+		case 'workers-ai':
+			if (!env.AI) {
+				throw new Error('The workers-ai provider needs the AI binding');
+			}
+			return new WorkersAiProvider(env.AI, env.WORKERS_AI_MODEL);
+		case 'openai':
+			if (!env.OPENAI_BASE_URL) {
+				throw new Error('The openai provider needs OPENAI_BASE_URL');
+			}
+			return new OpenAiCompatibleProvider({ baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL });
+		case 'fake':
+			return new FakeProvider();
+		default:
+			throw new Error(`Unknown extraction provider: ${name}`);
+	}
+}
+
+// The primary provider followed by the optional fallback
+export function providersFromEnv(env: ProviderEnv): ExtractionProvider[] {
+	const names = [env.EXTRACTION_PROVIDER || 'gemini', env.EXTRACTION_FALLBACK_PROVIDER].filter(
+		(name, index, all): name is string => Boolean(name) && all.indexOf(name) === index,
+	);
+	return names.map((name) => createProvider(name, env));
+}
+
+export function timeoutFromEnv(env: ProviderEnv): number {
+	const timeout = Number(env.EXTRACTION_TIMEOUT_MS);
+	return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_EXTRACTION_TIMEOUT_MS;
+}
+
+// Read a provider's streamed output, reporting each drink as soon as its JSON object is complete
+async function extractStreaming(
+	provider: ExtractionProvider,
+	stream: AsyncIterable<string>,
+	onProgress: (progress: ExtractionProgress) => void,
+): Promise<unknown> {
+	let text = '';
+	let reported = 0;
+	for await (const chunk of stream) {
+		text += chunk;
+		const complete = completeDrinkObjects(text);
+		const drinks = complete.slice(reported).flatMap((object) => {
+			const parsed = drinkPriceSchema.safeParse(object);
+			return parsed.success ? [parsed.data] : [];
+		});
+		reported = complete.length;
+		if (drinks.length > 0) {
+			onProgress({ type: 'partial', drinks });
+		}
+	}
+
+	if (!text) {
+		throw new Error(`No response from ${provider.name}`);
+	}
+	return JSON.parse(text);
+}
+
+async function runWithTimeout(
+	provider: ExtractionProvider,
+	input: ExtractionInput,
+	timeoutMs: number,
+	onProgress?: (progress: ExtractionProgress) => void,
+): Promise<unknown> {
+	const controller = new AbortController();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			controller.abort();
+			reject(new Error(`${provider.name} timed out after ${timeoutMs}ms`));
+		}, timeoutMs);
+	});
+
+	const run =
+		onProgress && provider.extractStream
+			? extractStreaming(provider, provider.extractStream(input, controller.signal), onProgress)
+			: provider.extract(input, controller.signal);
+
+	try {
+		// Not every backend honors the signal, so also race against the timer
+		return await Promise.race([run, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// Try each provider in turn until one returns output matching priceResultSchema
+export async function extractPrices(
+	providers: ExtractionProvider[],
+	input: ExtractionInput,
+	timeoutMs: number,
+	onProgress?: (progress: ExtractionProgress) => void,
+): Promise<PriceResult> {
+	let lastError: unknown = new Error('No extraction provider configured');
+	for (const provider of providers) {
+		try {
+			onProgress?.({ type: 'model_started', provider: provider.name });
+			const output = await runWithTimeout(provider, input, timeoutMs, onProgress);
+			return priceResultSchema.parse(output);
+		} catch (error) {
+			console.error(`Extraction with ${provider.name} failed:`, error);
+			lastError = error;
+		}
+	}
+	throw lastError;
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod/v4';
+import { extractionPrompt, priceResultSchema } from '../schema';
+import type { ExtractionInput, ExtractionProvider } from './types';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+type JsonSchema = { [keyword: string]: unknown };
+
+// Strict mode rejects these; the response is still validated against the zod schema afterwards
+const UNSUPPORTED_STRICT_KEYWORDS = new Set(['$schema', 'minLength', 'maxLength']);
+
+function nullable(schema: JsonSchema): JsonSchema {
+	return typeof schema.type === 'string' ? { ...schema, type: [schema.type, 'null'] } : { anyOf: [schema, { type: 'null' }] };
+}
+
+// OpenAI's strict mode needs every property in `required`, so optional fields become required but nullable
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+	const strict: JsonSchema = {};
+	for (const [keyword, value] of Object.entries(schema)) {
+		if (!UNSUPPORTED_STRICT_KEYWORDS.has(keyword)) {
+			strict[keyword] = value;
+		}
+	}
+
+	if (schema.items) {
+		strict.items = toStrictJsonSchema(schema.items as JsonSchema);
+	}
+	if (schema.properties) {
+		const required = new Set((schema.required as string[] | undefined) ?? []);
+		const properties = Object.entries(schema.properties as Record<string, JsonSchema>).map(([name, property]) => {
+			const converted = toStrictJsonSchema(property);
+			return [name, required.has(name) ? converted : nullable(converted)];
+		});
+		strict.properties = Object.fromEntries(properties);
+		strict.required = Object.keys(schema.properties);
+	}
+	return strict;
+}
+
+// Drop the nulls strict mode puts in place of omitted optional fields
+function withoutNulls(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(withoutNulls);
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([, field]) => field !== null)
+				.map(([key, field]) => [key, withoutNulls(field)]),
+		);
+	}
+	return value;
+}
+
+const RESPONSE_JSON_SCHEMA = toStrictJsonSchema(z.toJSONSchema(priceResultSchema));
+
+export interface OpenAiConfig {
+	baseUrl: string;
+	apiKey?: string;
+	model?: string;
+}
+
+// Any endpoint speaking the OpenAI chat completions API with image input and JSON schema responses
+export class OpenAiCompatibleProvider implements ExtractionProvider {
+	readonly name = 'openai';
+
+	constructor(
+		private readonly config: OpenAiConfig,
+		private readonly fetcher: typeof fetch = (input, init) => fetch(input, init),
+	) {}
+
+	async extract({ imageBase64, mediaType }: ExtractionInput, signal: AbortSignal): Promise<unknown> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.config.apiKey) {
+			headers.Authorization = `Bearer ${this.config.apiKey}`;
+		}
+
+		const response = await this.fetcher(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+			method: 'POST',
+			headers,
+			signal,
+			body: JSON.stringify({
+				model: this.config.model ?? DEFAULT_OPENAI_MODEL,
+				messages: [
+					{
+						role: 'user',
+						content: [
+							{ type: 'text', text: extractionPrompt },
+							{ type: 'image_url', image_url: { url: `data:${mediaType};base64,${imageBase64}` } },
+						],
+					},
+				],
+				response_format: {
+					type: 'json_schema',
+					json_schema: { name: 'price_result', strict: true, schema: RESPONSE_JSON_SCHEMA },
+				},
+			}),
+		});
+
+		if (!response.ok) {
+			throw new Error(`OpenAI-compatible endpoint returned ${response.status}`);
+		}
+
+		const body = (await response.json()) as { choices?: { message?: { content?: string | null } }[] };
+		const content = body.choices?.[0]?.message?.content;
+		if (!content) {
+			throw new Error('No response from OpenAI-compatible endpoint');
+		}
+
+		return withoutNulls(JSON.parse(content));
+	}
+}
@@ -0,0 +1,12 @@
+export interface ExtractionInput {
+	imageBase64: string;
+	mediaType: string;
+}
+
+// A model backend that reads a menu photo. Output is untrusted and validated by the caller.
+export interface ExtractionProvider {
+	readonly name: string;
+	extract(input: ExtractionInput, signal: AbortSignal): Promise<unknown>;
+	// Optional: the model's JSON output as text chunks, used to report drinks before the model finishes
+	extractStream?(input: ExtractionInput, signal: AbortSignal): AsyncIterable<string>;
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod/v4';
+import { extractionPrompt, priceResultSchema } from '../schema';
+import type { ExtractionInput, ExtractionProvider } from './types';
+
+export const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-4-scout-17b-16e-instruct';
+
+// The subset of the Workers AI binding used here
+export interface WorkersAi {
+	run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
+// A vision model on Workers AI with JSON schema mode
+export class WorkersAiProvider implements ExtractionProvider {
+	readonly name = 'workers-ai';
+
+	constructor(
+		private readonly ai: WorkersAi,
+		private readonly model = DEFAULT_WORKERS_AI_MODEL,
+	) {}
+
+	async extract({ imageBase64, mediaType }: ExtractionInput): Promise<unknown> {
+		const result = (await this.ai.run(this.model, {
+			messages: [
+				{
+					role: 'user',
+					content: [
+						{ type: 'text', text: extractionPrompt },
+						{ type: 'image_url', image_url: { url: `data:${mediaType};base64,${imageBase64}` } },
+					],
+				},
+			],
+			response_format: { type: 'json_schema', json_schema: z.toJSONSchema(priceResultSchema) },
+		})) as { response?: unknown };
+
+		// JSON mode may hand back either the parsed object or its serialized form
+		const response = result?.response;
+		if (response === undefined || response === null || response === '') {
+			throw new Error('No response from Workers AI');
+		}
+		return typeof response === 'string' ? JSON.parse(response) : response;
+	}
+}
@@ -0,0 +1,220 @@
+import { ApiError } from './http';
+import { MIN_KV_TTL_SECONDS, type KvStore } from './kv';
+
+// Fixed-window quotas for the extraction endpoint
+
+export interface Quota {
+	// Part of the counter key, so quotas with different windows never share a counter
+	name: string;
+	limit: number;
+	windowSeconds: number;
+}
+
+export interface RateLimitResult {
+	quota: string;
+	allowed: boolean;
+	limit: number;
+	remaining: number;
+	// Unix time in seconds when the window resets
+	resetAt: number;
+}
+
+// Counts hits per key and window
+export interface CounterStore {
+	// Increment the counter and return the new count. The counter may be dropped after `ttlSeconds`.
+	increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+export type CounterKv = Pick<KvStore, 'get' | 'put'>;
+
+// Counters in KV, shared across isolates. Best effort only: the read-then-write races with concurrent hits,
+// and KV takes up to a minute to propagate between locations and allows about one write per second per key.
+// That suits a daily quota; short windows need a Cloudflare rate limit binding or a Durable Object instead.
+export class KvCounterStore implements CounterStore {
+	constructor(private readonly kv: CounterKv) {}
+
+	async increment(key: string, ttlSeconds: number): Promise<number> {
+		const count = Number((await this.kv.get(key, 'json')) ?? 0) + 1;
+		await this.kv.put(key, String(count), { expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL_SECONDS) });
+		return count;
+	}
+}
+
+// Counters local to one isolate, for tests. Not a limit in production, where requests spread over isolates.
+export class MemoryCounterStore implements CounterStore {
+	private counters = new Map<string, { count: number; expiresAt: number }>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	// Counters currently held, expired ones included until the next increment
+	get size(): number {
+		return this.counters.size;
+	}
+
+	async increment(key: string, ttlSeconds: number): Promise<number> {
+		const now = this.now();
+		// Keys carry their window start, so an expired counter is never hit again
+		for (const [existing, { expiresAt }] of this.counters) {
+			if (expiresAt <= now) {
+				this.counters.delete(existing);
+			}
+		}
+
+		const current = this.counters.get(key);
+		const count = current && current.expiresAt > now ? current.count + 1 : 1;
+		this.counters.set(key, { count, expiresAt: now + ttlSeconds * 1000 });
+		return count;
+	}
+}
+
+export class RateLimiter {
+	constructor(
+		private readonly store: CounterStore,
+		private readonly now: () => number = Date.now,
+	) {}
+
+	async check(key: string, quota: Quota): Promise<RateLimitResult> {
+		const nowSeconds = Math.floor(this.now() / 1000);
+		const windowStart = nowSeconds - (nowSeconds % quota.windowSeconds);
+		const resetAt = windowStart + quota.windowSeconds;
+
+		const count = await this.store.increment(`rate:${quota.name}:${key}:${windowStart}`, resetAt - nowSeconds);
+		return {
+			quota: quota.name,
+			allowed: count <= quota.limit,
+			limit: quota.limit,
+			remaining: Math.max(0, quota.limit - count),
+			resetAt,
+		};
+	}
+
+	// Check the quotas in order and report the most restrictive one: the first exceeded, else the one with the least left.
+	// Quotas after an exceeded one are not counted, so a blocked request doesn't use up the longer windows.
+	async checkAll(key: string, quotas: Quota[]): Promise<RateLimitResult> {
+		const results: RateLimitResult[] = [];
+		for (const quota of quotas) {
+			const result = await this.check(key, quota);
+			if (!result.allowed) {
+				return result;
+			}
+			results.push(result);
+		}
+		return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+	}
+
+	secondsUntil(resetAt: number): number {
+		return Math.max(1, resetAt - Math.floor(this.now() / 1000));
+	}
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+	return {
+		'X-RateLimit-Limit': String(result.limit),
+		'X-RateLimit-Remaining': String(result.remaining),
+		'X-RateLimit-Reset': String(result.resetAt),
+	};
+}
+
+// Every limit applied to the request as `limit;w=window`, e.g. `10;w=60, 100;w=86400`
+export function rateLimitPolicyHeader(quotas: Quota[]): Record<string, string> {
+	return { 'X-RateLimit-Policy': quotas.map((quota) => `${quota.limit};w=${quota.windowSeconds}`).join(', ') };
+}
+
+// A Cloudflare rate limit binding. It only says whether a request is allowed, not how many are left.
+export interface RateLimitBinding {
+	limit(options: { key: string }): Promise<{ success: boolean }>;
+}
+
+// The bindings' settings from wrangler.jsonc, which they don't expose at runtime
+export const IP_MINUTE_LIMIT: Quota = { name: 'ip', limit: 30, windowSeconds: 60 };
+export const USER_MINUTE_LIMIT: Quota = { name: 'minute', limit: 10, windowSeconds: 60 };
+
+export interface RateLimitEnv {
+	// Per-IP burst limit checked before token verification
+	IP_RATE_LIMITER?: RateLimitBinding;
+	// Per-minute limit per Apple user
+	PRICE_EXTRACTION_LIMITER: RateLimitBinding;
+	// KV namespace for the daily per-user quota; without it only the per-minute limit applies
+	RATE_LIMIT_KV?: CounterKv;
+	RATE_LIMIT_PER_DAY?: string;
+	// Comma-separated Apple user IDs of trusted contributors, exempt from user quotas
+	RATE_LIMIT_ALLOWLIST?: string;
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Quotas counted in KV. The per-minute limit is the PRICE_EXTRACTION_LIMITER binding, configured in wrangler.jsonc.
+export function userQuotasFromEnv(env: Pick<RateLimitEnv, 'RATE_LIMIT_PER_DAY'>): Quota[] {
+	return [{ name: 'day', limit: positiveInt(env.RATE_LIMIT_PER_DAY, 100), windowSeconds: 24 * 60 * 60 }];
+}
+
+export function isAllowlisted(env: Pick<RateLimitEnv, 'RATE_LIMIT_ALLOWLIST'>, userId: string): boolean {
+	return (env.RATE_LIMIT_ALLOWLIST ?? '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean)
+		.includes(userId);
+}
+
+// The binding's window isn't aligned to ours, so a blocked request is told to wait a whole window
+function bindingBlocked(quota: Quota, now: () => number): RateLimitResult {
+	return { quota: quota.name, allowed: false, limit: quota.limit, remaining: 0, resetAt: Math.floor(now() / 1000) + quota.windowSeconds };
+}
+
+function rateLimited(detail: string, headers: Record<string, string>, retryAfterSeconds: number): ApiError {
+	return new ApiError(429, 'RATE_LIMITED', 'Rate limit exceeded', detail, { ...headers, 'Retry-After': String(retryAfterSeconds) });
+}
+
+// Unauthenticated abuse protection, before we spend a JWKS lookup on the token
+export async function checkIpLimit(request: Request, env: RateLimitEnv, now: () => number = Date.now): Promise<void> {
+	if (!env.IP_RATE_LIMITER) {
+		return;
+	}
+	const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+	const { success } = await env.IP_RATE_LIMITER.limit({ key: ip });
+	if (!success) {
+		const headers = { ...rateLimitPolicyHeader([IP_MINUTE_LIMIT]), ...rateLimitHeaders(bindingBlocked(IP_MINUTE_LIMIT, now)) };
+		throw rateLimited('Too many requests from this network. Please wait a minute.', headers, IP_MINUTE_LIMIT.windowSeconds);
+	}
+}
+
+let reportedMissingQuotaStore = false;
+
+// Per-minute and per-day quotas per Apple user. Returns the headers for a successful response: X-RateLimit-Policy
+// lists the limits applied, X-RateLimit-Limit/-Remaining/-Reset describe the daily quota. Without RATE_LIMIT_KV
+// the daily quota is off: the policy lists only the per-minute limit and, as the binding keeps no counts, nothing
+// else is reported. That is logged once per isolate rather than failing, since the per-minute limit still applies.
+export async function checkUserQuota(env: RateLimitEnv, userId: string, now: () => number = Date.now): Promise<Record<string, string>> {
+	if (isAllowlisted(env, userId)) {
+		return {};
+	}
+
+	const dailyQuotas = env.RATE_LIMIT_KV ? userQuotasFromEnv(env) : [];
+	const policy = rateLimitPolicyHeader([USER_MINUTE_LIMIT, ...dailyQuotas]);
+
+	// Checked first, so requests blocked here don't count towards the daily quota
+	const { success } = await env.PRICE_EXTRACTION_LIMITER.limit({ key: userId });
+	if (!success) {
+		const headers = { ...policy, ...rateLimitHeaders(bindingBlocked(USER_MINUTE_LIMIT, now)) };
+		throw rateLimited('Too many requests. Please wait a minute before trying again.', headers, USER_MINUTE_LIMIT.windowSeconds);
+	}
+
+	if (!env.RATE_LIMIT_KV) {
+		if (!reportedMissingQuotaStore) {
+			console.error('RATE_LIMIT_KV is not bound, the daily per-user quota is not enforced');
+			reportedMissingQuotaStore = true;
+		}
+		return policy;
+	}
+
+	const limiter = new RateLimiter(new KvCounterStore(env.RATE_LIMIT_KV), now);
+	const result = await limiter.checkAll(userId, dailyQuotas);
+	const headers = { ...policy, ...rateLimitHeaders(result) };
+	if (!result.allowed) {
+		throw rateLimited('Daily limit reached. Please try again tomorrow.', headers, limiter.secondsUntil(result.resetAt));
+	}
+	return headers;
+}
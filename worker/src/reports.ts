@@ -0,0 +1,193 @@
+import { z } from 'zod/v4';
+import { parseJsonBody } from './http';
+import type { KvStore } from './kv';
+
+// Community reports on price records. A record is hidden once enough different users report it,
+// and moderators can hide or restore records directly.
+
+// Three independent reports keep a single user from hiding a price they dislike
+export const DEFAULT_HIDE_THRESHOLD = 3;
+const MAX_COMMENT_LENGTH = 500;
+
+export const REPORT_REASONS = ['wrong_price', 'wrong_cafe', 'outdated', 'not_a_menu', 'spam', 'other'] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const reportRequestSchema = z.object({
+	// CloudKit record name of the reported PriceRecord
+	recordName: z.string().min(1).max(255),
+	cafeRecordName: z.string().min(1).max(255).optional(),
+	reason: z.enum(REPORT_REASONS),
+	comment: z.string().trim().max(MAX_COMMENT_LENGTH).optional(),
+});
+
+export type ReportRequest = z.infer<typeof reportRequestSchema>;
+
+// Body of the moderator hide and restore endpoints
+export const moderationRequestSchema = reportRequestSchema.pick({ recordName: true, cafeRecordName: true });
+
+export type ModerationRequest = z.infer<typeof moderationRequestSchema>;
+
+const reportSchema = z.object({
+	userId: z.string(),
+	reason: z.enum(REPORT_REASONS),
+	comment: z.string().optional(),
+	// Unix time in milliseconds
+	createdAt: z.number(),
+});
+
+export type Report = z.infer<typeof reportSchema>;
+
+const reportEntrySchema = z.object({
+	recordName: z.string(),
+	cafeRecordName: z.string().optional(),
+	reports: z.array(reportSchema),
+	hidden: z.boolean(),
+	hiddenAt: z.number().optional(),
+	// Set when a moderator restored the record; only later reports count towards hiding it again
+	restoredAt: z.number().optional(),
+});
+
+// Everything known about one reported record
+export type ReportEntry = z.infer<typeof reportEntrySchema>;
+
+export type ReportStore = KvStore;
+
+const REPORT_PREFIX = 'report:';
+// Marker keys, so listing hidden records doesn't read every report
+const HIDDEN_PREFIX = 'hidden:';
+
+export function hideThresholdFromEnv(value: string | undefined): number {
+	const threshold = Number(value);
+	return Number.isInteger(threshold) && threshold > 0 ? threshold : DEFAULT_HIDE_THRESHOLD;
+}
+
+export function parseReportRequest(request: Request): Promise<ReportRequest> {
+	return parseJsonBody(request, reportRequestSchema);
+}
+
+export function parseModerationRequest(request: Request): Promise<ModerationRequest> {
+	return parseJsonBody(request, moderationRequestSchema);
+}
+
+export async function getReportEntry(store: ReportStore, recordName: string): Promise<ReportEntry | null> {
+	const parsed = reportEntrySchema.safeParse(await store.get(REPORT_PREFIX + recordName, 'json'));
+	return parsed.success ? parsed.data : null;
+}
+
+export interface SubmitReportOptions {
+	threshold?: number;
+	now?: () => number;
+}
+
+export interface ReportOutcome {
+	recordName: string;
+	// Distinct users who reported the record since it was last restored
+	reportCount: number;
+	hidden: boolean;
+}
+
+// Record a user's report. Reporting the same record again replaces that user's earlier report,
+// so only distinct users count towards the threshold. Hidden records stay hidden until a moderator restores them.
+export async function submitReport(
+	store: ReportStore,
+	userId: string,
+	request: ReportRequest,
+	options: SubmitReportOptions = {},
+): Promise<ReportOutcome> {
+	const { threshold = DEFAULT_HIDE_THRESHOLD, now = Date.now } = options;
+
+	const entry: ReportEntry = (await getReportEntry(store, request.recordName)) ?? {
+		recordName: request.recordName,
+		cafeRecordName: request.cafeRecordName,
+		reports: [],
+		hidden: false,
+	};
+
+	const report: Report = { userId, reason: request.reason, comment: request.comment || undefined, createdAt: now() };
+	entry.reports = [...entry.reports.filter((existing) => existing.userId !== userId), report];
+	entry.cafeRecordName ??= request.cafeRecordName;
+
+	const reportCount = entry.reports.filter((existing) => existing.createdAt > (entry.restoredAt ?? -Infinity)).length;
+	const becameHidden = !entry.hidden && reportCount >= threshold;
+	if (becameHidden) {
+		entry.hidden = true;
+		entry.hiddenAt = now();
+	}
+
+	await store.put(REPORT_PREFIX + entry.recordName, JSON.stringify(entry));
+	if (becameHidden) {
+		await store.put(HIDDEN_PREFIX + entry.recordName, '1');
+	}
+
+	return { recordName: entry.recordName, reportCount, hidden: entry.hidden };
+}
+
+// Hide or restore a record on a moderator's behalf, whether or not it was reported
+export async function setRecordHidden(
+	store: ReportStore,
+	request: ModerationRequest,
+	hidden: boolean,
+	now: () => number = Date.now,
+): Promise<ReportEntry> {
+	const entry: ReportEntry = (await getReportEntry(store, request.recordName)) ?? {
+		recordName: request.recordName,
+		cafeRecordName: request.cafeRecordName,
+		reports: [],
+		hidden: false,
+	};
+	entry.cafeRecordName ??= request.cafeRecordName;
+
+	if (hidden && !entry.hidden) {
+		entry.hidden = true;
+		entry.hiddenAt = now();
+	} else if (!hidden && entry.hidden) {
+		entry.hidden = false;
+		entry.hiddenAt = undefined;
+		entry.restoredAt = now();
+	}
+
+	await store.put(REPORT_PREFIX + entry.recordName, JSON.stringify(entry));
+	if (entry.hidden) {
+		await store.put(HIDDEN_PREFIX + entry.recordName, '1');
+	} else {
+		await store.delete(HIDDEN_PREFIX + entry.recordName);
+	}
+	return entry;
+}
+
+async function listKeys(store: ReportStore, prefix: string): Promise<string[]> {
+	const names: string[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await store.list({ prefix, cursor });
+		names.push(...page.keys.map((key) => key.name.slice(prefix.length)));
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+	return names;
+}
+
+// Record names of every hidden price record
+export function listHiddenRecords(store: ReportStore): Promise<string[]> {
+	return listKeys(store, HIDDEN_PREFIX);
+}
+
+// Point the report entries of a merged-away cafe's records at the cafe they moved to. Returns how many changed.
+export async function moveReportsToCafe(store: ReportStore, fromCafeRecordName: string, toCafeRecordName: string): Promise<number> {
+	const entries = await listReportEntries(store);
+	const moved = entries.filter((entry) => entry.cafeRecordName === fromCafeRecordName);
+	for (const entry of moved) {
+		await store.put(REPORT_PREFIX + entry.recordName, JSON.stringify({ ...entry, cafeRecordName: toCafeRecordName }));
+	}
+	return moved.length;
+}
+
+function lastActivity(entry: ReportEntry): number {
+	return Math.max(entry.hiddenAt ?? 0, entry.restoredAt ?? 0, ...entry.reports.map((report) => report.createdAt));
+}
+
+// Every reported or moderated record, most recent activity first
+export async function listReportEntries(store: ReportStore): Promise<ReportEntry[]> {
+	const recordNames = await listKeys(store, REPORT_PREFIX);
+	const entries = await Promise.all(recordNames.map((recordName) => getReportEntry(store, recordName)));
+	return entries.filter((entry): entry is ReportEntry => entry !== null).sort((a, b) => lastActivity(b) - lastActivity(a));
+}
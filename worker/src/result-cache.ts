@@ -0,0 +1,75 @@
+import { MIN_KV_TTL_SECONDS, type KvStore } from './kv';
+import { RESPONSE_SCHEMA_VERSION, priceResultSchema, type PriceResult } from './schema';
+
+// Rescans of the same menu photo are common; a week covers a visit without serving stale menus for long
+export const DEFAULT_RESULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type ResultStore = Pick<KvStore, 'get' | 'put'>;
+
+export interface ResultCacheOptions {
+	store?: ResultStore;
+	ttlSeconds?: number;
+	// Skip the lookup but still store the fresh result
+	bypass?: boolean;
+	// Lets the write finish after the response is sent
+	waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+export interface CachedExtraction {
+	result: PriceResult;
+	cached: boolean;
+}
+
+// Hex SHA-256 of the decoded image bytes
+export async function imageHash(bytes: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Keyed by schema version so results from an older schema are never served
+export function resultCacheKey(hash: string): string {
+	return `price-result:v${RESPONSE_SCHEMA_VERSION}:${hash}`;
+}
+
+export function ttlFromEnv(value: string | undefined): number {
+	const ttl = Number(value);
+	return Number.isFinite(ttl) && ttl > 0 ? Math.max(ttl, MIN_KV_TTL_SECONDS) : DEFAULT_RESULT_TTL_SECONDS;
+}
+
+// Serve a cached PriceResult for the same image bytes, or run the extraction and cache its result.
+// Cache failures are logged and never fail the request.
+export async function extractWithCache(
+	imageBytes: Uint8Array,
+	extract: () => Promise<PriceResult>,
+	options: ResultCacheOptions,
+): Promise<CachedExtraction> {
+	const { store } = options;
+	if (!store) {
+		return { result: await extract(), cached: false };
+	}
+
+	const key = resultCacheKey(await imageHash(imageBytes));
+
+	if (!options.bypass) {
+		try {
+			const parsed = priceResultSchema.safeParse(await store.get(key, 'json'));
+			if (parsed.success) {
+				return { result: parsed.data, cached: true };
+			}
+		} catch (error) {
+			console.error('Result cache read failed:', error);
+		}
+	}
+
+	const result = await extract();
+	const write = store
+		.put(key, JSON.stringify(result), { expirationTtl: options.ttlSeconds ?? DEFAULT_RESULT_TTL_SECONDS })
+		.catch((error) => console.error('Result cache write failed:', error));
+	if (options.waitUntil) {
+		options.waitUntil(write);
+	} else {
+		await write;
+	}
+
+	return { result, cached: false };
+}
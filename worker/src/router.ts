@@ -0,0 +1,59 @@
+import { ApiError, corsHeaders, errorResponse, toApiError } from './http';
+
+export type Handler<E> = (request: Request, env: E, ctx: ExecutionContext) => Promise<Response> | Response;
+
+interface Route<E> {
+	method: string;
+	path: string;
+	handler: Handler<E>;
+}
+
+// Minimal exact-path router. Unknown paths get 404, known paths with the wrong method get 405,
+// and OPTIONS preflights are answered with the methods registered for the path.
+export class Router<E> {
+	private routes: Route<E>[] = [];
+
+	get(path: string, handler: Handler<E>): this {
+		return this.add('GET', path, handler);
+	}
+
+	post(path: string, handler: Handler<E>): this {
+		return this.add('POST', path, handler);
+	}
+
+	add(method: string, path: string, handler: Handler<E>): this {
+		this.routes.push({ method, path, handler });
+		return this;
+	}
+
+	async handle(request: Request, env: E, ctx: ExecutionContext): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		const candidates = this.routes.filter((route) => route.path === pathname);
+
+		if (candidates.length === 0) {
+			return errorResponse(new ApiError(404, 'NOT_FOUND', 'Not found'));
+		}
+
+		const allowed = [...new Set(candidates.map((route) => route.method)), 'OPTIONS'].join(', ');
+
+		if (request.method === 'OPTIONS') {
+			return new Response(null, { headers: { ...corsHeaders, 'Access-Control-Allow-Methods': allowed } });
+		}
+
+		const route = candidates.find((candidate) => candidate.method === request.method);
+		if (!route) {
+			return errorResponse(
+				new ApiError(405, 'METHOD_NOT_ALLOWED', 'Method not allowed', undefined, {
+					Allow: allowed,
+					'Access-Control-Allow-Methods': allowed,
+				}),
+			);
+		}
+
+		try {
+			return await route.handler(request, env, ctx);
+		} catch (error) {
+			return errorResponse(toApiError(error));
+		}
+	}
+}
@@ -0,0 +1,128 @@
+import { canonicalDrinkId, canonicalDrinkName } from 'shared/drinks';
+import type { OutlierReason } from 'shared/outliers';
+import { z } from 'zod/v4';
+
+// Bumped whenever the extraction response gains or changes fields
+export const RESPONSE_SCHEMA_VERSION = 3;
+
+// Zod schema for price extraction
+export const drinkPriceSchema = z.object({
+	name: z
+		.string()
+		.describe(
+			'The drink name as shown on the menu, normalized to standard names like "Espresso", "Doppio", "Americano", "Cappuccino", "Flat White", "Latte", "Macchiato", "Cortado", "Mocha", "Filter Coffee" etc.',
+		),
+	price: z.number().describe('The price as a decimal number, e.g. 2.80'),
+	size: z.string().optional().describe('The size label as printed, e.g. "klein", "groß", "S", "L". Omit if the drink has one size.'),
+	volumeMl: z.number().positive().optional().describe('The serving volume in milliliters if printed, e.g. 0.3l becomes 300'),
+	variant: z
+		.string()
+		.optional()
+		.describe('What distinguishes this entry from the plain drink, e.g. "Oat milk", "Decaf", "Extra shot". Omit for the plain drink.'),
+	currency: z.string().length(3).optional().describe('ISO 4217 currency code of the price, e.g. "EUR", "CHF"'),
+	confidence: z.number().min(0).max(1).optional().describe('How sure you are about this name and price, from 0 to 1'),
+	rawText: z.string().optional().describe('The menu line this entry was read from, verbatim'),
+});
+
+export const priceResultSchema = z.object({
+	drinks: z
+		.array(drinkPriceSchema)
+		.describe(
+			'All coffee drinks found on the menu with their prices, one entry per size and variant. Include espresso, doppio, americano, cappuccino, flat white, latte, macchiato, cortado, mocha, filter coffee, and any other coffee-based drinks. Note: "double espresso" should be normalized to "Doppio".',
+		),
+});
+
+export type DrinkPrice = z.infer<typeof drinkPriceSchema>;
+export type PriceResult = z.infer<typeof priceResultSchema>;
+
+// A drink with its name mapped to the shared catalog
+export type NormalizedDrinkPrice = DrinkPrice & { drinkId: string };
+
+// Set on items whose price looks like a misread; see flagOutliers
+export interface OutlierFlag {
+	score: number;
+	reasons: OutlierReason[];
+}
+
+// A normalized drink with the index of the uploaded image it was read from
+export type SourcedDrinkPrice = NormalizedDrinkPrice & { sourceImage: number; outlier?: OutlierFlag };
+
+// Shape of `drinks` before schema version 2, still what released clients decode
+export interface LegacyDrinkPrice {
+	name: string;
+	price: number;
+}
+
+export interface ExtractionResponse {
+	schemaVersion: number;
+	// One plain, smallest-size entry per drink
+	drinks: LegacyDrinkPrice[];
+	// Every size and variant with the full detail, deduplicated across images
+	items: SourcedDrinkPrice[];
+}
+
+export const extractionPrompt = `Look at this cafe menu image and extract all coffee drink prices you can find.
+
+Return a "drinks" array with ALL coffee drinks and their prices. Normalize drink names to standard terms: "Espresso", "Doppio", "Americano", "Cappuccino", "Flat White", "Latte", "Macchiato", "Cortado", "Mocha", "Filter Coffee", etc.
+
+If a drink comes in several sizes, return one entry per size with "size" and, if printed, "volumeMl". If the menu lists surcharges or alternatives such as oat milk or decaf, return them as extra entries with "variant" set and the full price including the surcharge. Set "currency" to the ISO code of the menu's currency, "confidence" to how sure you are about each entry, and "rawText" to the menu line it came from.
+
+Return an empty array if no coffee drinks are found.`;
+
+// Plain drinks first, then the smallest serving, then the cheapest
+function compareBaseEntries(a: NormalizedDrinkPrice, b: NormalizedDrinkPrice): number {
+	return (
+		Number(Boolean(a.variant)) - Number(Boolean(b.variant)) ||
+		(a.volumeMl ?? Infinity) - (b.volumeMl ?? Infinity) ||
+		a.price - b.price
+	);
+}
+
+// Collapse sizes and variants into one entry per drink, matching the pre-v2 prompt's "smallest/default size" rule
+export function toLegacyDrinks(items: NormalizedDrinkPrice[]): LegacyDrinkPrice[] {
+	const byId = new Map<string, NormalizedDrinkPrice>();
+	for (const item of items) {
+		const current = byId.get(item.drinkId);
+		if (!current || compareBaseEntries(item, current) < 0) {
+			byId.set(item.drinkId, item);
+		}
+	}
+	return [...byId.values()].map(({ name, price }) => ({ name, price }));
+}
+
+// Map model-chosen names onto the catalog instead of trusting the prompt's normalization list
+export function normalizeDrink(item: DrinkPrice): NormalizedDrinkPrice {
+	const normalized = { ...item, name: canonicalDrinkName(item.name), drinkId: canonicalDrinkId(item.name) };
+	if (item.currency) {
+		normalized.currency = item.currency.toUpperCase();
+	}
+	return normalized;
+}
+
+function variantKey(item: NormalizedDrinkPrice): string {
+	const text = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+	return [item.drinkId, text(item.size), item.volumeMl ?? '', text(item.variant)].join('|');
+}
+
+// Merge the drinks read from several photos of one menu. The same drink, size and variant seen on
+// more than one photo is kept once: the most confident reading wins, earlier images break ties.
+export function mergeResults(results: PriceResult[]): SourcedDrinkPrice[] {
+	const merged = new Map<string, SourcedDrinkPrice>();
+	results.forEach((result, sourceImage) => {
+		for (const drink of result.drinks) {
+			const item = { ...normalizeDrink(drink), sourceImage };
+			const key = variantKey(item);
+			const current = merged.get(key);
+			if (!current || (item.confidence ?? 0) > (current.confidence ?? 0)) {
+				merged.set(key, item);
+			}
+		}
+	});
+	return [...merged.values()];
+}
+
+// Results in upload order, one per image
+export function toExtractionResponse(results: PriceResult[]): ExtractionResponse {
+	const items = mergeResults(results);
+	return { schemaVersion: RESPONSE_SCHEMA_VERSION, drinks: toLegacyDrinks(items), items };
+}
@@ -0,0 +1,42 @@
+import { corsHeaders } from './http';
+
+export type SendEvent = (event: string, data: unknown) => Promise<void>;
+
+export function formatEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Whether the client asked for server-sent events instead of a single JSON response
+export function wantsEventStream(request: Request): boolean {
+	return (request.headers.get('Accept') ?? '').includes('text/event-stream');
+}
+
+// Respond with an event stream fed by `run`. The stream closes when `run` settles.
+export function sseResponse(
+	run: (send: SendEvent) => Promise<void>,
+	waitUntil: (promise: Promise<unknown>) => void,
+	headers: Record<string, string> = {},
+): Response {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+
+	const send: SendEvent = async (event, data) => {
+		try {
+			await writer.write(encoder.encode(formatEvent(event, data)));
+		} catch {
+			// The client went away; let the work finish so results still get cached
+		}
+	};
+
+	waitUntil(run(send).finally(() => writer.close().catch(() => {})));
+
+	return new Response(readable, {
+		headers: {
+			...corsHeaders,
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			...headers,
+		},
+	});
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod/v4';
+import { ApiError } from './http';
+import { priceReferenceSchema, type PriceReference } from './outliers';
+
+// Decoded image size limit. The apps compress to about 2 MB, this leaves headroom for other clients.
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Base64 grows data by 4/3, plus room for the other JSON fields
+export const MAX_BODY_BYTES = Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 64 * 1024;
+// Photos per multipart request, e.g. a menu spread over several boards
+export const MAX_IMAGES = 5;
+export const MAX_MULTIPART_BYTES = MAX_IMAGES * MAX_IMAGE_BYTES + 64 * 1024;
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'] as const;
+
+export type ImageType = (typeof ALLOWED_IMAGE_TYPES)[number];
+
+const MEDIA_TYPE_ALIASES: Record<string, ImageType> = {
+	'image/jpg': 'image/jpeg',
+	'image/pjpeg': 'image/jpeg',
+};
+
+// ISO base media file brands used by HEIC/HEIF images
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+export const extractRequestSchema = z.object({
+	image: z.string().min(1),
+	mediaType: z.string().optional(),
+	// Ignore a cached result for this image, e.g. when the user asks to rescan
+	bypassCache: z.boolean().optional(),
+	// Known prices to flag suspicious results against
+	reference: priceReferenceSchema.optional(),
+});
+
+export interface ExtractImage {
+	base64: string;
+	bytes: Uint8Array;
+	mediaType: ImageType;
+}
+
+export interface ExtractRequest {
+	images: ExtractImage[];
+	bypassCache: boolean;
+	reference: PriceReference | null;
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+	return signature.every((byte, index) => bytes[index] === byte);
+}
+
+// Detect the image type from its leading bytes
+export function sniffImageType(bytes: Uint8Array): ImageType | null {
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+		return 'image/jpeg';
+	}
+	if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return 'image/png';
+	}
+	if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+		return 'image/webp';
+	}
+	if (ascii(bytes, 4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 12))) {
+		return 'image/heic';
+	}
+	return null;
+}
+
+export function normalizeMediaType(mediaType: string): string {
+	const type = mediaType.split(';')[0].trim().toLowerCase();
+	return MEDIA_TYPE_ALIASES[type] ?? type;
+}
+
+function isAllowedImageType(type: string): type is ImageType {
+	return (ALLOWED_IMAGE_TYPES as readonly string[]).includes(type);
+}
+
+// HEIC and HEIF share a container, so either declared type accepts either brand
+function sameImageFamily(declared: ImageType, sniffed: ImageType): boolean {
+	const family = (type: ImageType) => (type === 'image/heif' ? 'image/heic' : type);
+	return family(declared) === family(sniffed);
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+	let binary = '';
+	// Chunked so large images don't overflow the argument limit of fromCharCode
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+function tooLarge(): ApiError {
+	return new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Image too large', `Images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+}
+
+// Check the declared type against the allowlist and the image's magic bytes.
+// Without a declared type the sniffed one is used.
+function validateImageType(bytes: Uint8Array, declaredType: string | undefined): ImageType {
+	const sniffed = sniffImageType(bytes);
+	const mediaType = declaredType === undefined ? (sniffed ?? 'unknown') : normalizeMediaType(declaredType);
+	if (!isAllowedImageType(mediaType)) {
+		throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Unsupported image type', `Allowed types: ${ALLOWED_IMAGE_TYPES.join(', ')}`);
+	}
+
+	if (!sniffed || !sameImageFamily(mediaType, sniffed)) {
+		throw new ApiError(
+			415,
+			'UNSUPPORTED_MEDIA_TYPE',
+			'Image does not match its type',
+			sniffed ? `Declared ${mediaType} but the data is ${sniffed}` : `Declared ${mediaType} but the data is not a supported image`,
+		);
+	}
+	return mediaType;
+}
+
+export function decodeBase64Image(image: string): Uint8Array {
+	if (image.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(image)) {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid image data', 'Image must be base64 encoded');
+	}
+
+	const padding = image.endsWith('==') ? 2 : image.endsWith('=') ? 1 : 0;
+	const decodedSize = (image.length / 4) * 3 - padding;
+	if (decodedSize > MAX_IMAGE_BYTES) {
+		throw tooLarge();
+	}
+
+	return Uint8Array.from(atob(image), (c) => c.charCodeAt(0));
+}
+
+function assertContentLength(request: Request, limit: number): void {
+	const contentLength = Number(request.headers.get('Content-Length'));
+	if (contentLength > limit) {
+		throw new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Request body too large');
+	}
+}
+
+// JSON body with a single base64 image, as sent by the apps
+async function parseJsonRequest(request: Request): Promise<ExtractRequest> {
+	assertContentLength(request, MAX_BODY_BYTES);
+
+	let json: unknown;
+	try {
+		json = await request.json();
+	} catch {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid JSON body');
+	}
+
+	const parsed = extractRequestSchema.safeParse(json);
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		if (issue.path[0] === 'image' && !(json as { image?: unknown }).image) {
+			throw new ApiError(400, 'INVALID_REQUEST', 'Missing image data');
+		}
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid request body', `${issue.path.join('.') || 'body'}: ${issue.message}`);
+	}
+
+	const bytes = decodeBase64Image(parsed.data.image);
+	return {
+		images: [{ base64: parsed.data.image, bytes, mediaType: validateImageType(bytes, parsed.data.mediaType) }],
+		bypassCache: parsed.data.bypassCache ?? false,
+		reference: parsed.data.reference ?? null,
+	};
+}
+
+// The multipart `reference` field holds the same JSON as the `reference` property of a JSON body
+function parseReferenceField(value: File | string | null): PriceReference | null {
+	if (value === null) {
+		return null;
+	}
+	let json: unknown;
+	try {
+		json = typeof value === 'string' ? JSON.parse(value) : undefined;
+	} catch {
+		json = undefined;
+	}
+	const parsed = priceReferenceSchema.safeParse(json);
+	if (!parsed.success) {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid request body', 'reference: expected price reference JSON');
+	}
+	return parsed.data;
+}
+
+// multipart/form-data with one or more `image` file fields, an optional `bypassCache=true` and `reference`
+async function parseMultipartRequest(request: Request): Promise<ExtractRequest> {
+	assertContentLength(request, MAX_MULTIPART_BYTES);
+
+	let form: FormData;
+	try {
+		form = await request.formData();
+	} catch {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Invalid multipart body');
+	}
+
+	const files = form.getAll('image');
+	if (files.length === 0) {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Missing image data');
+	}
+	if (files.length > MAX_IMAGES) {
+		throw new ApiError(400, 'INVALID_REQUEST', 'Too many images', `At most ${MAX_IMAGES} images per request`);
+	}
+
+	const images: ExtractImage[] = [];
+	for (const file of files) {
+		if (typeof file === 'string') {
+			throw new ApiError(400, 'INVALID_REQUEST', 'Invalid request body', 'image: expected a file');
+		}
+		if (file.size > MAX_IMAGE_BYTES) {
+			throw tooLarge();
+		}
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		// Clients that don't know the type send none or a generic one; sniff those
+		const declaredType = file.type && file.type !== 'application/octet-stream' ? file.type : undefined;
+		const mediaType = validateImageType(bytes, declaredType);
+		images.push({ base64: encodeBase64(bytes), bytes, mediaType });
+	}
+
+	return { images, bypassCache: form.get('bypassCache') === 'true', reference: parseReferenceField(form.get('reference')) };
+}
+
+// Read and validate the body of an extraction request
+export async function parseExtractRequest(request: Request): Promise<ExtractRequest> {
+	const contentType = request.headers.get('Content-Type') ?? '';
+	if (contentType.toLowerCase().startsWith('multipart/form-data')) {
+		return parseMultipartRequest(request);
+	}
+	return parseJsonRequest(request);
+}
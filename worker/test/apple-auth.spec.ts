@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { APPLE_ISSUER, AppleTokenError, JwksCache, JwksUnavailableError, verifyAppleToken } from '../src/apple-auth';
+
+const APP_ID = 'com.timokuehne.Espressokarte';
+const SHARE_ID = 'com.timokuehne.Espressokarte.EspressokarteShare';
+const AUDIENCES = [APP_ID, SHARE_ID];
+const NOW = 1_760_000_000_000;
+
+let privateKey: CryptoKey;
+let publicJwk: JsonWebKey;
+
+beforeAll(async () => {
+	const pair = (await crypto.subtle.generateKey(
+		{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+		true,
+		['sign', 'verify'],
+	)) as CryptoKeyPair;
+	privateKey = pair.privateKey;
+	publicJwk = (await crypto.subtle.exportKey('jwk', pair.publicKey)) as JsonWebKey;
+});
+
+function base64Url(data: string | Uint8Array): string {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+async function signToken(claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}): Promise<string> {
+	const nowSeconds = Math.floor(NOW / 1000);
+	const headerB64 = base64Url(JSON.stringify({ alg: 'RS256', kid: 'test-key', ...header }));
+	const payloadB64 = base64Url(
+		JSON.stringify({ iss: APPLE_ISSUER, aud: APP_ID, sub: 'user-1', iat: nowSeconds - 10, exp: nowSeconds + 600, ...claims }),
+	);
+	const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(`${headerB64}.${payloadB64}`));
+	return `${headerB64}.${payloadB64}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function jwksFetch(kids: string[] = ['test-key'], cacheControl = 'max-age=3600') {
+	return vi.fn(
+		async () =>
+			new Response(JSON.stringify({ keys: kids.map((kid) => ({ ...publicJwk, kid, alg: 'RS256', use: 'sig' })) }), {
+				headers: { 'Content-Type': 'application/json', 'Cache-Control': cacheControl, Date: new Date(NOW).toUTCString() },
+			}),
+	);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<string> {
+	try {
+		await promise;
+	} catch (error) {
+		if (error instanceof AppleTokenError) return error.reason;
+		throw error;
+	}
+	throw new Error('Expected token to be rejected');
+}
+
+describe('verifyAppleToken', () => {
+	it('accepts a valid token for the main app', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+		const payload = await verifyAppleToken(await signToken(), AUDIENCES, jwks, () => NOW);
+
+		expect(payload.sub).toBe('user-1');
+	});
+
+	it('accepts a valid token for the share extension', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+		const payload = await verifyAppleToken(await signToken({ aud: SHARE_ID }), AUDIENCES, jwks, () => NOW);
+
+		expect(payload.aud).toBe(SHARE_ID);
+	});
+
+	it('rejects other audiences and issuers', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+
+		expect(await rejection(verifyAppleToken(await signToken({ aud: 'com.example.other' }), AUDIENCES, jwks, () => NOW))).toBe(
+			'invalid_audience',
+		);
+		expect(await rejection(verifyAppleToken(await signToken({ iss: 'https://evil.example' }), AUDIENCES, jwks, () => NOW))).toBe(
+			'invalid_issuer',
+		);
+	});
+
+	it('tolerates small clock skew but rejects expired and future tokens', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+		const nowSeconds = Math.floor(NOW / 1000);
+
+		await expect(verifyAppleToken(await signToken({ exp: nowSeconds - 30 }), AUDIENCES, jwks, () => NOW)).resolves.toBeTruthy();
+		await expect(verifyAppleToken(await signToken({ iat: nowSeconds + 30 }), AUDIENCES, jwks, () => NOW)).resolves.toBeTruthy();
+		expect(await rejection(verifyAppleToken(await signToken({ exp: nowSeconds - 120 }), AUDIENCES, jwks, () => NOW))).toBe('expired');
+		expect(await rejection(verifyAppleToken(await signToken({ iat: nowSeconds + 120 }), AUDIENCES, jwks, () => NOW))).toBe(
+			'issued_in_future',
+		);
+	});
+
+	it('rejects missing claims', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+
+		expect(await rejection(verifyAppleToken(await signToken({ iat: undefined }), AUDIENCES, jwks, () => NOW))).toBe('invalid_claims');
+		expect(await rejection(verifyAppleToken(await signToken({ sub: '' }), AUDIENCES, jwks, () => NOW))).toBe('invalid_claims');
+	});
+
+	it('rejects algorithms other than RS256', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+
+		expect(await rejection(verifyAppleToken(await signToken({}, { alg: 'none' }), AUDIENCES, jwks, () => NOW))).toBe('unsupported_alg');
+		expect(await rejection(verifyAppleToken(await signToken({}, { alg: 'HS256' }), AUDIENCES, jwks, () => NOW))).toBe(
+			'unsupported_alg',
+		);
+	});
+
+	it('rejects malformed tokens without fetching keys', async () => {
+		const fetch = jwksFetch();
+		const jwks = new JwksCache({ fetch, cache: null, now: () => NOW });
+		const valid = await signToken();
+
+		for (const token of ['', 'abc', 'a.b', `${valid}.extra`, valid.replace('.', '..'), 'e30.e30.!!!', 'bm90IGpzb24.e30.c2ln']) {
+			expect(await rejection(verifyAppleToken(token, AUDIENCES, jwks, () => NOW))).toBe('malformed');
+		}
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('rejects a tampered payload', async () => {
+		const jwks = new JwksCache({ fetch: jwksFetch(), cache: null, now: () => NOW });
+		const [header, , signature] = (await signToken()).split('.');
+		const forged = base64Url(
+			JSON.stringify({ iss: APPLE_ISSUER, aud: APP_ID, sub: 'someone-else', iat: NOW / 1000, exp: NOW / 1000 + 600 }),
+		);
+
+		expect(await rejection(verifyAppleToken(`${header}.${forged}.${signature}`, AUDIENCES, jwks, () => NOW))).toBe('invalid_signature');
+	});
+});
+
+describe('JwksCache', () => {
+	it('fetches the key set once while it is fresh', async () => {
+		const fetch = jwksFetch();
+		const jwks = new JwksCache({ fetch, cache: null, now: () => NOW });
+
+		await verifyAppleToken(await signToken(), AUDIENCES, jwks, () => NOW);
+		await verifyAppleToken(await signToken(), AUDIENCES, jwks, () => NOW);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('refetches after max-age has passed', async () => {
+		const fetch = jwksFetch(['test-key'], 'public, max-age=60');
+		let now = NOW;
+		const jwks = new JwksCache({ fetch, cache: null, now: () => now });
+
+		await jwks.getKey('test-key');
+		now += 30_000;
+		await jwks.getKey('test-key');
+		expect(fetch).toHaveBeenCalledTimes(1);
+
+		now += 60_000;
+		await jwks.getKey('test-key');
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('refetches on an unknown kid, at most once per interval', async () => {
+		const fetch = jwksFetch(['old-key']);
+		let now = NOW;
+		const jwks = new JwksCache({ fetch, cache: null, now: () => now });
+
+		await jwks.getKey('old-key');
+		now += 61_000;
+		expect(await jwks.getKey('rotated-key')).toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(2);
+
+		expect(await jwks.getKey('rotated-key')).toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('picks up rotated keys', async () => {
+		const fetch = jwksFetch(['old-key']);
+		let now = NOW;
+		const jwks = new JwksCache({ fetch, cache: null, now: () => now });
+
+		await jwks.getKey('old-key');
+		fetch.mockImplementation(jwksFetch(['old-key', 'test-key']));
+		now += 61_000;
+
+		await expect(verifyAppleToken(await signToken(), AUDIENCES, jwks, () => now)).resolves.toBeTruthy();
+	});
+
+	it('fails with JwksUnavailableError when Apple is unreachable and nothing is cached', async () => {
+		const fetch = vi.fn(async (): Promise<Response> => {
+			throw new TypeError('Network connection lost');
+		});
+		const jwks = new JwksCache({ fetch, cache: null, now: () => NOW });
+
+		await expect(verifyAppleToken(await signToken(), AUDIENCES, jwks, () => NOW)).rejects.toBeInstanceOf(JwksUnavailableError);
+	});
+
+	it('keeps using an expired key set while Apple fails, retrying once per interval', async () => {
+		const fetch = jwksFetch(['test-key'], 'public, max-age=60');
+		let now = NOW;
+		const jwks = new JwksCache({ fetch, cache: null, now: () => now });
+
+		await jwks.getKey('test-key');
+		fetch.mockImplementation(async () => new Response('Service Unavailable', { status: 503 }));
+		now += 120_000;
+
+		await expect(verifyAppleToken(await signToken(), AUDIENCES, jwks, () => NOW)).resolves.toBeTruthy();
+		expect(await jwks.getKey('test-key')).not.toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('keeps the cached keys when the refetch for an unknown kid fails', async () => {
+		const fetch = jwksFetch(['test-key']);
+		let now = NOW;
+		const jwks = new JwksCache({ fetch, cache: null, now: () => now });
+
+		await jwks.getKey('test-key');
+		fetch.mockImplementation(async () => {
+			throw new TypeError('Network connection lost');
+		});
+		now += 61_000;
+
+		expect(await jwks.getKey('rotated-key')).toBeNull();
+		expect(await jwks.getKey('test-key')).not.toBeNull();
+	});
+
+	it('shares the key set through the Cache API', async () => {
+		const cache = await caches.open('jwks-test');
+		const fetch = jwksFetch();
+
+		await new JwksCache({ fetch, cache, now: () => NOW }).getKey('test-key');
+		const key = await new JwksCache({ fetch, cache, now: () => NOW }).getKey('test-key');
+
+		expect(key).not.toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not store no-store responses in the Cache API', async () => {
+		const cache = await caches.open('jwks-no-store');
+		const fetch = jwksFetch(['test-key'], 'no-store');
+
+		await new JwksCache({ fetch, cache, now: () => NOW }).getKey('test-key');
+		await new JwksCache({ fetch, cache, now: () => NOW }).getKey('test-key');
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
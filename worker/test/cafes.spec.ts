@@ -0,0 +1,243 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { latestEspressoPrice, mergeCafes, parseCafeMergeRequest, parseCafeUpdateRequest, updateCafe } from '../src/cafes';
+import { CloudKitError, type CloudKitDatabase, type CloudKitOperation, type CloudKitQuery, type CloudKitRecord } from '../src/cloudkit';
+import { ApiError } from '../src/http';
+
+// In-memory stand-in for the public database, recording every modify request. Modify requests are atomic like
+// CloudKit's, and the one numbered `failingModify` (from 1) fails without saving anything.
+class MemoryDatabase implements CloudKitDatabase {
+	readonly records = new Map<string, CloudKitRecord>();
+	readonly modifications: CloudKitOperation[][] = [];
+	failingModify?: number;
+
+	constructor(records: CloudKitRecord[]) {
+		for (const record of records) {
+			this.records.set(record.recordName, record);
+		}
+	}
+
+	async lookup(recordNames: string[]): Promise<CloudKitRecord[]> {
+		return recordNames.flatMap((recordName) => this.records.get(recordName) ?? []);
+	}
+
+	async query(query: CloudKitQuery): Promise<CloudKitRecord[]> {
+		const cafe = (query.filterBy?.[0].fieldValue.value as { recordName: string }).recordName;
+		return [...this.records.values()].filter(
+			(record) => record.recordType === query.recordType && (record.fields.cafeReference?.value as { recordName: string }).recordName === cafe,
+		);
+	}
+
+	async modify(operations: CloudKitOperation[]): Promise<void> {
+		this.modifications.push(operations);
+		if (this.modifications.length === this.failingModify) {
+			throw new CloudKitError(`Saving ${operations[0].record.recordName} failed: record changed`, 409, 'CONFLICT');
+		}
+		for (const { operationType, record } of operations) {
+			if (operationType === 'forceDelete') {
+				this.records.delete(record.recordName);
+			} else {
+				const existing = this.records.get(record.recordName)!;
+				this.records.set(record.recordName, { ...existing, fields: { ...existing.fields, ...record.fields } });
+			}
+		}
+	}
+}
+
+function cafe(recordName: string, currentPrice?: number): CloudKitRecord {
+	return {
+		recordName,
+		recordType: 'Cafe',
+		recordChangeTag: `${recordName}-tag`,
+		fields: { name: { value: recordName }, ...(currentPrice ? { currentPrice: { value: currentPrice, type: 'DOUBLE' } } : {}) },
+	};
+}
+
+function priceRecord(recordName: string, cafeRecordName: string, date: string, fields: CloudKitRecord['fields']): CloudKitRecord {
+	return {
+		recordName,
+		recordType: 'PriceRecord',
+		recordChangeTag: `${recordName}-tag`,
+		fields: {
+			date: { value: Date.parse(date), type: 'TIMESTAMP' },
+			cafeReference: { value: { recordName: cafeRecordName, action: 'DELETE_SELF' }, type: 'REFERENCE' },
+			...fields,
+		},
+	};
+}
+
+const drinks = (list: { name: string; price: number }[]) => ({ drinksJSON: { value: JSON.stringify(list) } });
+
+function jsonRequest(body: unknown): Request {
+	return new Request('http://example.com', { method: 'POST', body: JSON.stringify(body) });
+}
+
+describe('parseCafeUpdateRequest', () => {
+	it('trims the name and address', async () => {
+		const update = { recordName: 'cafe-1', name: ' Café Lehel ', address: ' Thierschstraße 1 ', latitude: 48.1, longitude: 11.5 };
+
+		expect(await parseCafeUpdateRequest(jsonRequest(update))).toMatchObject({ name: 'Café Lehel', address: 'Thierschstraße 1' });
+	});
+
+	it('rejects an empty name and out-of-range coordinates', async () => {
+		const update = { recordName: 'cafe-1', name: 'Lehel', address: '', latitude: 48, longitude: 11 };
+
+		await expect(parseCafeUpdateRequest(jsonRequest({ ...update, name: ' ' }))).rejects.toThrow(ApiError);
+		await expect(parseCafeUpdateRequest(jsonRequest({ ...update, latitude: 91 }))).rejects.toMatchObject({
+			status: 400,
+			detail: expect.stringContaining('latitude'),
+		});
+	});
+});
+
+describe('parseCafeMergeRequest', () => {
+	it('rejects merging a cafe into itself', async () => {
+		await expect(parseCafeMergeRequest(jsonRequest({ keepRecordName: 'cafe-1', duplicateRecordName: 'cafe-1' }))).rejects.toMatchObject({
+			status: 400,
+			detail: "duplicateRecordName: A cafe can't be merged into itself",
+		});
+	});
+});
+
+describe('updateCafe', () => {
+	it('updates the editable fields against the current change tag', async () => {
+		const database = new MemoryDatabase([cafe('cafe-1')]);
+
+		await updateCafe(database, { recordName: 'cafe-1', name: 'Café Lehel', address: 'Thierschstraße 1', latitude: 48.1, longitude: 11.5 });
+
+		expect(database.modifications).toEqual([
+			[
+				{
+					operationType: 'update',
+					record: {
+						recordName: 'cafe-1',
+						recordType: 'Cafe',
+						recordChangeTag: 'cafe-1-tag',
+						fields: {
+							name: { value: 'Café Lehel' },
+							address: { value: 'Thierschstraße 1' },
+							latitude: { value: 48.1, type: 'DOUBLE' },
+							longitude: { value: 11.5, type: 'DOUBLE' },
+						},
+					},
+				},
+			],
+		]);
+	});
+
+	it('is a 404 for an unknown cafe', async () => {
+		const database = new MemoryDatabase([priceRecord('price-1', 'cafe-1', '2026-01-01', {})]);
+
+		for (const recordName of ['missing', 'price-1']) {
+			await expect(updateCafe(database, { recordName, name: 'x', address: '', latitude: 0, longitude: 0 })).rejects.toMatchObject({
+				status: 404,
+			});
+		}
+	});
+});
+
+describe('mergeCafes', () => {
+	it('moves the price records, updates the current price and deletes the duplicate', async () => {
+		const database = new MemoryDatabase([
+			cafe('keep', 2.2),
+			cafe('duplicate', 2.6),
+			priceRecord('price-1', 'keep', '2025-01-01', drinks([{ name: 'Espresso', price: 2.2 }])),
+			priceRecord('price-2', 'duplicate', '2026-01-01', drinks([{ name: 'Espresso', price: 2.6 }])),
+			priceRecord('price-3', 'duplicate', '2026-02-01', drinks([{ name: 'Cappuccino', price: 3.9 }])),
+		]);
+
+		expect(await mergeCafes(database, { keepRecordName: 'keep', duplicateRecordName: 'duplicate' })).toEqual({ moved: 2, currentPrice: 2.6 });
+
+		expect(database.records.has('duplicate')).toBe(false);
+		for (const recordName of ['price-1', 'price-2', 'price-3']) {
+			expect(database.records.get(recordName)?.fields.cafeReference.value).toEqual({ recordName: 'keep', action: 'DELETE_SELF' });
+		}
+		expect(database.records.get('keep')?.fields.currentPrice.value).toBe(2.6);
+		// The moves are saved before the duplicate, and its DELETE_SELF references, go away
+		expect(database.modifications.at(-1)?.at(-1)).toEqual({ operationType: 'forceDelete', record: { recordName: 'duplicate' } });
+	});
+
+	it('merges in one request and changes nothing when it fails', async () => {
+		const database = new MemoryDatabase([
+			cafe('keep', 2.2),
+			cafe('duplicate'),
+			priceRecord('price-1', 'duplicate', '2026-01-01', drinks([{ name: 'Espresso', price: 2.6 }])),
+		]);
+		database.failingModify = 1;
+
+		await expect(mergeCafes(database, { keepRecordName: 'keep', duplicateRecordName: 'duplicate' })).rejects.toMatchObject({
+			serverErrorCode: 'CONFLICT',
+		});
+
+		expect(database.modifications).toHaveLength(1);
+		expect(database.records.has('duplicate')).toBe(true);
+		expect(database.records.get('price-1')?.fields.cafeReference.value).toMatchObject({ recordName: 'duplicate' });
+		expect(database.records.get('keep')?.fields.currentPrice.value).toBe(2.2);
+	});
+
+	it('keeps the duplicate when a batch of a long merge fails, so merging again finishes it', async () => {
+		const moved = Array.from({ length: 450 }, (_, i) => priceRecord(`price-${i}`, 'duplicate', '2025-01-01', { price: { value: 2.5 } }));
+		const database = new MemoryDatabase([cafe('keep'), cafe('duplicate'), ...moved]);
+		database.failingModify = 2;
+		const request = { keepRecordName: 'keep', duplicateRecordName: 'duplicate' };
+
+		await expect(mergeCafes(database, request)).rejects.toBeInstanceOf(CloudKitError);
+		expect(database.records.has('duplicate')).toBe(true);
+
+		database.failingModify = undefined;
+		expect(await mergeCafes(database, request)).toMatchObject({ moved: 250 });
+		expect(database.records.has('duplicate')).toBe(false);
+		const priceRecords = [...database.records.values()].filter((record) => record.recordType === 'PriceRecord');
+		expect(priceRecords.every((record) => (record.fields.cafeReference.value as { recordName: string }).recordName === 'keep')).toBe(true);
+	});
+
+	it('moves large histories in batches of 200', async () => {
+		const moved = Array.from({ length: 450 }, (_, i) => priceRecord(`price-${i}`, 'duplicate', '2025-01-01', { price: { value: 2.5 } }));
+		const database = new MemoryDatabase([cafe('keep'), cafe('duplicate'), ...moved]);
+
+		expect(await mergeCafes(database, { keepRecordName: 'keep', duplicateRecordName: 'duplicate' })).toMatchObject({ moved: 450 });
+		expect(database.modifications.map((operations) => operations.length)).toEqual([200, 200, 50, 2]);
+	});
+
+	it('is a 404 when either cafe is missing, before changing anything', async () => {
+		const database = new MemoryDatabase([cafe('keep')]);
+
+		await expect(mergeCafes(database, { keepRecordName: 'keep', duplicateRecordName: 'missing' })).rejects.toMatchObject({ status: 404 });
+		expect(database.modifications).toEqual([]);
+	});
+});
+
+describe('latestEspressoPrice', () => {
+	it('takes the newest espresso price, falling back to the legacy price field', () => {
+		const records = [
+			priceRecord('old', 'cafe', '2024-01-01', drinks([{ name: 'Espresso', price: 2.0 }])),
+			priceRecord('legacy', 'cafe', '2025-01-01', { price: { value: 2.3 } }),
+			priceRecord('placeholder', 'cafe', '2025-06-01', { price: { value: 0 } }),
+			priceRecord('newest', 'cafe', '2026-01-01', drinks([{ name: 'Flat White', price: 3.8 }])),
+		];
+
+		expect(latestEspressoPrice(records)).toBe(2.3);
+		expect(latestEspressoPrice([])).toBeNull();
+	});
+});
+
+describe('Cafe admin endpoints', () => {
+	async function send(path: string, init?: RequestInit<IncomingRequestCfProperties>) {
+		const request = new Request<unknown, IncomingRequestCfProperties>(`http://example.com${path}`, init);
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, env, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('requires a moderator token', async () => {
+		for (const path of ['/v1/admin/cafes/update', '/v1/admin/cafes/merge']) {
+			const missing = await send(path, { method: 'POST' });
+			expect(missing.status).toBe(401);
+
+			const invalid = await send(path, { method: 'POST', headers: { Authorization: 'Bearer not-a-jwt' } });
+			expect(await invalid.json()).toMatchObject({ code: 'INVALID_TOKEN' });
+		}
+	});
+});
@@ -1,37 +1,107 @@
 import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
 import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
+import worker, { type Env } from '../src/index';
 
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
+async function send(path: string, init?: RequestInit<IncomingRequestCfProperties>, bindings: Env = env): Promise<Response> {
+	const request = new IncomingRequest(`http://example.com${path}`, init);
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, bindings, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
 describe('Price extraction worker', () => {
-	it('returns 405 for GET requests', async () => {
-		const request = new IncomingRequest('http://example.com', { method: 'GET' });
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		await waitOnExecutionContext(ctx);
-
-		expect(response.status).toBe(405);
-		expect(await response.json()).toEqual({ error: 'Method not allowed' });
+	describe('POST /v1/extract', () => {
+		it('returns 401 for missing authorization', async () => {
+			const response = await send('/v1/extract', { method: 'POST' });
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toEqual({ error: 'Missing authorization token', code: 'MISSING_TOKEN' });
+		});
+
+		it('returns 401 for a malformed token', async () => {
+			const response = await send('/v1/extract', { method: 'POST', headers: { Authorization: 'Bearer not-a-jwt' } });
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toEqual({ error: 'Invalid or expired token', code: 'INVALID_TOKEN' });
+		});
+
+		it('rate limits by IP before checking the token', async () => {
+			const exhausted = { limit: async () => ({ success: false }) };
+			const response = await send('/v1/extract', { method: 'POST' }, { ...env, IP_RATE_LIMITER: exhausted });
+
+			expect(response.status).toBe(429);
+			expect(response.headers.get('Retry-After')).toBe('60');
+			expect(await response.json()).toMatchObject({ error: 'Rate limit exceeded', code: 'RATE_LIMITED' });
+		});
+
+		it('returns 405 for GET requests', async () => {
+			const response = await send('/v1/extract', { method: 'GET' });
+
+			expect(response.status).toBe(405);
+			expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+			expect(await response.json()).toEqual({ error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' });
+		});
+
+		it('handles CORS preflight requests', async () => {
+			const response = await send('/v1/extract', { method: 'OPTIONS' });
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+			expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+			expect(response.headers.get('Access-Control-Expose-Headers')).toContain('X-RateLimit-Remaining');
+		});
 	});
 
-	it('returns 401 for missing authorization', async () => {
-		const request = new IncomingRequest('http://example.com', { method: 'POST' });
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		await waitOnExecutionContext(ctx);
+	describe('POST / (legacy extract path)', () => {
+		it('returns 405 for GET requests', async () => {
+			const response = await send('/', { method: 'GET' });
+
+			expect(response.status).toBe(405);
+			expect(await response.json()).toEqual({ error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' });
+		});
+
+		it('returns 401 for missing authorization', async () => {
+			const response = await send('/', { method: 'POST' });
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toEqual({ error: 'Missing authorization token', code: 'MISSING_TOKEN' });
+		});
+
+		it('handles CORS preflight requests', async () => {
+			const response = await send('/', { method: 'OPTIONS' });
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+		});
+	});
+
+	describe('GET /health', () => {
+		it('returns ok without authorization', async () => {
+			const response = await send('/health');
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('application/json');
+			expect(await response.json()).toEqual({ status: 'ok' });
+		});
+
+		it('returns 405 for POST requests', async () => {
+			const response = await send('/health', { method: 'POST' });
 
-		expect(response.status).toBe(401);
-		expect(await response.json()).toEqual({ error: 'Missing authorization token' });
+			expect(response.status).toBe(405);
+			expect(response.headers.get('Allow')).toBe('GET, OPTIONS');
+			expect(await response.json()).toEqual({ error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' });
+		});
 	});
 
-	it('handles CORS preflight requests', async () => {
-		const request = new IncomingRequest('http://example.com', { method: 'OPTIONS' });
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		await waitOnExecutionContext(ctx);
+	describe('unknown routes', () => {
+		it('returns 404 with an error code', async () => {
+			const response = await send('/v2/nope', { method: 'POST' });
 
-		expect(response.status).toBe(200);
-		expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+			expect(response.status).toBe(404);
+			expect(await response.json()).toEqual({ error: 'Not found', code: 'NOT_FOUND' });
+		});
 	});
 });
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { flagOutliers } from '../src/outliers';
+import type { SourcedDrinkPrice } from '../src/schema';
+
+function item(name: string, drinkId: string, price: number, extra: Partial<SourcedDrinkPrice> = {}): SourcedDrinkPrice {
+	return { name, drinkId, price, sourceImage: 0, ...extra };
+}
+
+const reference = {
+	stats: { Espresso: { q1: 2.2, median: 2.5, q3: 2.8 }, Cappuccino: { q1: 3.4, median: 3.8, q3: 4.1 } },
+	history: [
+		{ name: 'Espresso', price: 2.8 },
+		{ name: 'Flat white', price: 4.2 },
+	],
+};
+
+describe('flagOutliers', () => {
+	it('flags a misread price against the quartiles and the cafe history', () => {
+		const [espresso, cappuccino] = flagOutliers([item('Espresso', 'espresso', 28), item('Cappuccino', 'cappuccino', 3.9)], reference);
+
+		expect(espresso.outlier).toEqual({ score: 14, reasons: ['market', 'history'] });
+		expect(cappuccino.outlier).toBeUndefined();
+	});
+
+	it('matches reference drinks by their canonical id', () => {
+		const [flatWhite] = flagOutliers([item('Flat White', 'flat-white', 0.42)], reference);
+
+		expect(flatWhite.outlier?.reasons).toEqual(['history']);
+	});
+
+	it('skips variants and drinks without reference prices', () => {
+		const items = [item('Espresso', 'espresso', 28, { variant: 'Oat milk' }), item('Cortado', 'cortado', 28)];
+
+		expect(flagOutliers(items, reference)).toEqual(items);
+	});
+
+	it('flags nothing without a reference', () => {
+		const items = [item('Espresso', 'espresso', 28)];
+
+		expect(flagOutliers(items, null)).toBe(items);
+	});
+});
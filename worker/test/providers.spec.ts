@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createProvider, extractPrices, providersFromEnv, type ExtractionProvider, type ProviderEnv } from '../src/providers';
+import { FAKE_PRICE_RESULT, FakeProvider } from '../src/providers/fake';
+import { OpenAiCompatibleProvider, toStrictJsonSchema } from '../src/providers/openai';
+import { WorkersAiProvider } from '../src/providers/workers-ai';
+
+const input = { imageBase64: 'aW1hZ2U=', mediaType: 'image/jpeg' };
+const baseEnv: ProviderEnv = { CF_ACCOUNT_ID: 'account', CF_GATEWAY_ID: 'gateway' };
+
+function failing(name: string, error = new Error(`${name} is down`)): ExtractionProvider {
+	return { name, extract: vi.fn(async () => Promise.reject(error)) };
+}
+
+function hanging(name: string): ExtractionProvider {
+	return { name, extract: vi.fn(() => new Promise<unknown>(() => {})) };
+}
+
+describe('providersFromEnv', () => {
+	it('defaults to Gemini without a fallback', () => {
+		expect(providersFromEnv(baseEnv).map((p) => p.name)).toEqual(['gemini']);
+	});
+
+	it('selects the primary and fallback providers', () => {
+		const env = { ...baseEnv, EXTRACTION_PROVIDER: 'fake', EXTRACTION_FALLBACK_PROVIDER: 'gemini' };
+		expect(providersFromEnv(env).map((p) => p.name)).toEqual(['fake', 'gemini']);
+	});
+
+	it('ignores a fallback equal to the primary', () => {
+		const env = { ...baseEnv, EXTRACTION_PROVIDER: 'fake', EXTRACTION_FALLBACK_PROVIDER: 'fake' };
+		expect(providersFromEnv(env).map((p) => p.name)).toEqual(['fake']);
+	});
+
+	it('rejects unknown or misconfigured providers', () => {
+		expect(() => createProvider('llm-of-the-week', baseEnv)).toThrow('Unknown extraction provider');
+		expect(() => createProvider('workers-ai', baseEnv)).toThrow('AI binding');
+		expect(() => createProvider('openai', baseEnv)).toThrow('OPENAI_BASE_URL');
+	});
+});
+
+describe('extractPrices', () => {
+	it('returns the fake provider result', async () => {
+		expect(await extractPrices([new FakeProvider()], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+	});
+
+	it('falls back when the primary provider fails', async () => {
+		const primary = failing('primary');
+		expect(await extractPrices([primary, new FakeProvider()], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+		expect(primary.extract).toHaveBeenCalledOnce();
+	});
+
+	it('falls back when the primary provider times out', async () => {
+		const primary = hanging('primary');
+		expect(await extractPrices([primary, new FakeProvider()], input, 20)).toEqual(FAKE_PRICE_RESULT);
+		const signal = vi.mocked(primary.extract).mock.calls[0][1];
+		expect(signal.aborted).toBe(true);
+	});
+
+	it('falls back when output does not match the schema', async () => {
+		const invalid = new FakeProvider({ drinks: [{ name: 'Espresso', price: '2,50 €' }] });
+		expect(await extractPrices([invalid, new FakeProvider()], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+	});
+
+	it('throws the last error when every provider fails', async () => {
+		await expect(extractPrices([failing('primary'), failing('fallback')], input, 1000)).rejects.toThrow('fallback is down');
+	});
+
+	it('rejects schema violations from the only provider', async () => {
+		await expect(extractPrices([new FakeProvider({ items: [] })], input, 1000)).rejects.toThrow();
+	});
+});
+
+describe('OpenAiCompatibleProvider', () => {
+	it('posts the image as a data URL and parses the JSON content', async () => {
+		const fetcher = vi.fn(
+			async (_url: RequestInfo | URL, _init?: RequestInit) =>
+				new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(FAKE_PRICE_RESULT) } }] })),
+		);
+		const provider = new OpenAiCompatibleProvider({ baseUrl: 'https://llm.example/v1/', apiKey: 'secret', model: 'vision' }, fetcher);
+
+		expect(await extractPrices([provider], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+
+		const [url, init] = fetcher.mock.calls[0];
+		expect(url).toBe('https://llm.example/v1/chat/completions');
+		expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer secret');
+		const body = JSON.parse(init?.body as string);
+		expect(body.model).toBe('vision');
+		expect(body.messages[0].content[1].image_url.url).toBe('data:image/jpeg;base64,aW1hZ2U=');
+	});
+
+	it('sends a schema strict mode accepts: every property required, optional ones nullable', async () => {
+		const fetcher = vi.fn(
+			async (_url: RequestInfo | URL, _init?: RequestInit) =>
+				new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(FAKE_PRICE_RESULT) } }] })),
+		);
+		await new OpenAiCompatibleProvider({ baseUrl: 'https://llm.example/v1' }, fetcher).extract(input, new AbortController().signal);
+
+		const { json_schema } = JSON.parse(fetcher.mock.calls[0][1]?.body as string).response_format;
+		expect(json_schema.strict).toBe(true);
+		const { schema } = json_schema;
+		expect(schema.$schema).toBeUndefined();
+		expect(schema.required).toEqual(['drinks']);
+
+		const drink = schema.properties.drinks.items;
+		expect(drink.additionalProperties).toBe(false);
+		expect(drink.required).toEqual(Object.keys(drink.properties));
+		expect(drink.properties.name.type).toBe('string');
+		expect(drink.properties.price.type).toBe('number');
+		for (const field of ['size', 'volumeMl', 'variant', 'currency', 'confidence', 'rawText']) {
+			expect(drink.properties[field].type).toContain('null');
+		}
+		expect(drink.properties.currency).not.toHaveProperty('minLength');
+	});
+
+	it('treats nulls for optional fields as omitted', async () => {
+		const content = {
+			drinks: [{ name: 'Espresso', price: 2.8, size: null, volumeMl: null, variant: null, currency: 'EUR', confidence: 0.9, rawText: null }],
+		};
+		const provider = new OpenAiCompatibleProvider(
+			{ baseUrl: 'https://llm.example/v1' },
+			async () => new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) } }] })),
+		);
+
+		expect(await extractPrices([provider], input, 1000)).toEqual({
+			drinks: [{ name: 'Espresso', price: 2.8, currency: 'EUR', confidence: 0.9 }],
+		});
+	});
+
+	it('wraps untyped optional properties in anyOf with null', () => {
+		const schema = toStrictJsonSchema({
+			type: 'object',
+			properties: { price: { anyOf: [{ type: 'number' }, { type: 'string' }] } },
+			required: [],
+			additionalProperties: false,
+		});
+
+		expect(schema.required).toEqual(['price']);
+		expect(schema.properties).toEqual({ price: { anyOf: [{ anyOf: [{ type: 'number' }, { type: 'string' }] }, { type: 'null' }] } });
+	});
+
+	it('fails on non-OK responses', async () => {
+		const provider = new OpenAiCompatibleProvider({ baseUrl: 'https://llm.example/v1' }, async () => new Response('nope', { status: 502 }));
+		await expect(provider.extract(input, new AbortController().signal)).rejects.toThrow('502');
+	});
+});
+
+describe('WorkersAiProvider', () => {
+	it('accepts both serialized and parsed JSON responses', async () => {
+		const serialized = new WorkersAiProvider({ run: async () => ({ response: JSON.stringify(FAKE_PRICE_RESULT) }) });
+		const parsed = new WorkersAiProvider({ run: async () => ({ response: FAKE_PRICE_RESULT }) });
+
+		expect(await extractPrices([serialized], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+		expect(await extractPrices([parsed], input, 1000)).toEqual(FAKE_PRICE_RESULT);
+	});
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import {
+	checkIpLimit,
+	checkUserQuota,
+	isAllowlisted,
+	KvCounterStore,
+	MemoryCounterStore,
+	RateLimiter,
+	rateLimitHeaders,
+	userQuotasFromEnv,
+	type CounterKv,
+	type Quota,
+	type RateLimitBinding,
+} from '../src/rate-limit';
+
+// 2026-01-01T00:00:30Z, half a minute into a window
+const START = Date.UTC(2026, 0, 1, 0, 0, 30);
+
+function fixedClock(start = START) {
+	const clock = { time: start, now: () => clock.time };
+	return clock;
+}
+
+const perMinute: Quota = { name: 'minute', limit: 2, windowSeconds: 60 };
+const perDay: Quota = { name: 'day', limit: 3, windowSeconds: 24 * 60 * 60 };
+
+async function hit(limiter: RateLimiter, times: number, quotas: Quota[] = [perMinute]) {
+	let result;
+	for (let i = 0; i < times; i++) {
+		result = await limiter.checkAll('user-1', quotas);
+	}
+	return result!;
+}
+
+describe('RateLimiter', () => {
+	it('allows requests up to the limit and counts down the remaining quota', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		expect(await limiter.check('user-1', perMinute)).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+		expect(await limiter.check('user-1', perMinute)).toMatchObject({ allowed: true, remaining: 0 });
+		expect(await limiter.check('user-1', perMinute)).toMatchObject({ allowed: false, remaining: 0 });
+	});
+
+	it('reports the end of the current window', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		const result = await limiter.check('user-1', perMinute);
+
+		expect(result.resetAt).toBe((START + 30_000) / 1000);
+		expect(limiter.secondsUntil(result.resetAt)).toBe(30);
+	});
+
+	it('starts a fresh count in the next window', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		expect((await hit(limiter, 3)).allowed).toBe(false);
+		clock.time += 30_000;
+		expect(await limiter.check('user-1', perMinute)).toMatchObject({ allowed: true, remaining: 1 });
+	});
+
+	it('counts keys independently', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		await hit(limiter, 3);
+		expect((await limiter.check('user-2', perMinute)).allowed).toBe(true);
+	});
+
+	it('reports the most restrictive quota', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		expect(await hit(limiter, 1, [perMinute, perDay])).toMatchObject({ quota: 'minute', remaining: 1 });
+		expect(await hit(limiter, 1, [perMinute, perDay])).toMatchObject({ quota: 'minute', remaining: 0 });
+
+		// The daily quota runs out across minute windows
+		clock.time += 60_000;
+		expect(await hit(limiter, 1, [perMinute, perDay])).toMatchObject({ quota: 'day', allowed: true, remaining: 0 });
+		clock.time += 60_000;
+		expect(await hit(limiter, 1, [perMinute, perDay])).toMatchObject({ quota: 'day', allowed: false });
+	});
+
+	it('stops counting at the first exceeded quota', async () => {
+		const clock = fixedClock();
+		const limiter = new RateLimiter(new MemoryCounterStore(clock.now), clock.now);
+
+		await hit(limiter, 2, [perMinute, perDay]);
+		expect(await hit(limiter, 3, [perMinute, perDay])).toMatchObject({ quota: 'minute', allowed: false });
+
+		// Only the two allowed requests used up the daily quota
+		clock.time += 60_000;
+		expect(await hit(limiter, 1, [perMinute, perDay])).toMatchObject({ quota: 'day', allowed: true, remaining: 0 });
+	});
+
+	it('shares counters through KV', async () => {
+		const entries = new Map<string, { value: string; expirationTtl?: number }>();
+		const kv: CounterKv = {
+			async get(key) {
+				const entry = entries.get(key);
+				return entry ? JSON.parse(entry.value) : null;
+			},
+			async put(key, value, options) {
+				entries.set(key, { value, expirationTtl: options?.expirationTtl });
+			},
+		};
+		const clock = fixedClock();
+
+		await new RateLimiter(new KvCounterStore(kv), clock.now).check('user-1', perMinute);
+		const result = await new RateLimiter(new KvCounterStore(kv), clock.now).check('user-1', perMinute);
+
+		expect(result).toMatchObject({ allowed: true, remaining: 0 });
+		// Raised to KV's minimum TTL
+		expect([...entries.values()]).toEqual([{ value: '2', expirationTtl: 60 }]);
+	});
+});
+
+describe('MemoryCounterStore', () => {
+	it('drops expired counters', async () => {
+		const clock = fixedClock();
+		const store = new MemoryCounterStore(clock.now);
+
+		await store.increment('rate:minute:user-1:0', 60);
+		await store.increment('rate:minute:user-2:0', 60);
+		await store.increment('rate:day:user-1:0', 24 * 60 * 60);
+		expect(store.size).toBe(3);
+
+		clock.time += 60_000;
+		expect(await store.increment('rate:minute:user-1:60', 60)).toBe(1);
+		expect(store.size).toBe(2);
+	});
+});
+
+describe('rateLimitHeaders', () => {
+	it('reports limit, remaining quota and reset time', () => {
+		expect(rateLimitHeaders({ quota: 'minute', allowed: true, limit: 10, remaining: 7, resetAt: 1767225660 })).toEqual({
+			'X-RateLimit-Limit': '10',
+			'X-RateLimit-Remaining': '7',
+			'X-RateLimit-Reset': '1767225660',
+		});
+	});
+});
+
+describe('userQuotasFromEnv', () => {
+	it('defaults to 100 per day', () => {
+		expect(userQuotasFromEnv({}).map(({ name, limit }) => [name, limit])).toEqual([['day', 100]]);
+	});
+
+	it('reads overrides and ignores invalid values', () => {
+		expect(userQuotasFromEnv({ RATE_LIMIT_PER_DAY: '250' }).map(({ limit }) => limit)).toEqual([250]);
+		expect(userQuotasFromEnv({ RATE_LIMIT_PER_DAY: 'lots' }).map(({ limit }) => limit)).toEqual([100]);
+	});
+});
+
+describe('isAllowlisted', () => {
+	it('matches trimmed, comma-separated user IDs', () => {
+		const env = { RATE_LIMIT_ALLOWLIST: '001234.abc, 005678.def' };
+
+		expect(isAllowlisted(env, '005678.def')).toBe(true);
+		expect(isAllowlisted(env, '005678')).toBe(false);
+		expect(isAllowlisted({}, '')).toBe(false);
+	});
+});
+
+describe('checkUserQuota', () => {
+	const allow: RateLimitBinding = { limit: async () => ({ success: true }) };
+	const block: RateLimitBinding = { limit: async () => ({ success: false }) };
+
+	function memoryKv(): CounterKv {
+		const entries = new Map<string, string>();
+		return {
+			async get(key) {
+				const value = entries.get(key);
+				return value ? JSON.parse(value) : null;
+			},
+			async put(key, value) {
+				entries.set(key, value);
+			},
+		};
+	}
+
+	async function rejection(promise: Promise<unknown>) {
+		const error = await promise.catch((e: unknown) => e);
+		expect(error).toMatchObject({ status: 429, code: 'RATE_LIMITED' });
+		return error as { detail: string; headers: Record<string, string> };
+	}
+
+	it('reports every limit applied and the remaining daily quota', async () => {
+		const clock = fixedClock();
+		const env = { PRICE_EXTRACTION_LIMITER: allow, RATE_LIMIT_KV: memoryKv(), RATE_LIMIT_PER_DAY: '3' };
+
+		expect(await checkUserQuota(env, 'user-1', clock.now)).toEqual({
+			'X-RateLimit-Policy': '10;w=60, 3;w=86400',
+			'X-RateLimit-Limit': '3',
+			'X-RateLimit-Remaining': '2',
+			'X-RateLimit-Reset': String(Date.UTC(2026, 0, 2) / 1000),
+		});
+	});
+
+	it('blocks with the per-minute limit, Retry-After and no daily count', async () => {
+		const clock = fixedClock();
+		const kv = memoryKv();
+
+		const error = await rejection(checkUserQuota({ PRICE_EXTRACTION_LIMITER: block, RATE_LIMIT_KV: kv }, 'user-1', clock.now));
+
+		expect(error.detail).toBe('Too many requests. Please wait a minute before trying again.');
+		expect(error.headers).toEqual({
+			'X-RateLimit-Policy': '10;w=60, 100;w=86400',
+			'X-RateLimit-Limit': '10',
+			'X-RateLimit-Remaining': '0',
+			'X-RateLimit-Reset': String(START / 1000 + 60),
+			'Retry-After': '60',
+		});
+		expect(await kv.get(`rate:day:user-1:${Date.UTC(2026, 0, 1) / 1000}`, 'json')).toBeNull();
+	});
+
+	it('blocks once the daily quota is used up until the next day', async () => {
+		const clock = fixedClock();
+		const env = { PRICE_EXTRACTION_LIMITER: allow, RATE_LIMIT_KV: memoryKv(), RATE_LIMIT_PER_DAY: '1' };
+
+		await checkUserQuota(env, 'user-1', clock.now);
+		const error = await rejection(checkUserQuota(env, 'user-1', clock.now));
+
+		expect(error.detail).toBe('Daily limit reached. Please try again tomorrow.');
+		expect(error.headers).toMatchObject({ 'X-RateLimit-Limit': '1', 'X-RateLimit-Remaining': '0', 'Retry-After': String(24 * 60 * 60 - 30) });
+	});
+
+	it('only applies the per-minute limit without RATE_LIMIT_KV', async () => {
+		expect(await checkUserQuota({ PRICE_EXTRACTION_LIMITER: allow }, 'user-1')).toEqual({ 'X-RateLimit-Policy': '10;w=60' });
+		const error = await rejection(checkUserQuota({ PRICE_EXTRACTION_LIMITER: block }, 'user-1'));
+		expect(error.headers['X-RateLimit-Policy']).toBe('10;w=60');
+	});
+
+	it('skips allowlisted users', async () => {
+		expect(await checkUserQuota({ PRICE_EXTRACTION_LIMITER: block, RATE_LIMIT_ALLOWLIST: 'user-1' }, 'user-1')).toEqual({});
+	});
+});
+
+describe('checkIpLimit', () => {
+	it('blocks with the per-IP limit and Retry-After', async () => {
+		const clock = fixedClock();
+		const env = {
+			PRICE_EXTRACTION_LIMITER: { limit: async () => ({ success: true }) },
+			IP_RATE_LIMITER: { limit: async () => ({ success: false }) },
+		};
+
+		const error = await checkIpLimit(new Request('http://example.com'), env, clock.now).catch((e: unknown) => e);
+
+		expect(error).toMatchObject({
+			status: 429,
+			headers: {
+				'X-RateLimit-Policy': '30;w=60',
+				'X-RateLimit-Limit': '30',
+				'X-RateLimit-Remaining': '0',
+				'X-RateLimit-Reset': String(START / 1000 + 60),
+				'Retry-After': '60',
+			},
+		});
+	});
+});
@@ -0,0 +1,225 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { ApiError } from '../src/http';
+import {
+	getReportEntry,
+	hideThresholdFromEnv,
+	listHiddenRecords,
+	listReportEntries,
+	moveReportsToCafe,
+	parseModerationRequest,
+	parseReportRequest,
+	setRecordHidden,
+	submitReport,
+	type ReportRequest,
+	type ReportStore,
+} from '../src/reports';
+
+// Local stand-in for a KV namespace, with a small page size to exercise list cursors
+class MemoryKv implements ReportStore {
+	readonly entries = new Map<string, string>();
+
+	async get(key: string): Promise<unknown> {
+		const value = this.entries.get(key);
+		return value === undefined ? null : JSON.parse(value);
+	}
+
+	async put(key: string, value: string): Promise<void> {
+		this.entries.set(key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async list({ prefix, cursor }: { prefix: string; cursor?: string }) {
+		const names = [...this.entries.keys()].filter((name) => name.startsWith(prefix)).sort();
+		const start = Number(cursor ?? 0);
+		const keys = names.slice(start, start + 2).map((name) => ({ name }));
+		const complete = start + 2 >= names.length;
+		return { keys, list_complete: complete, cursor: complete ? undefined : String(start + 2) };
+	}
+}
+
+const wrongPrice: ReportRequest = { recordName: 'price-1', cafeRecordName: 'cafe-1', reason: 'wrong_price' };
+
+describe('submitReport', () => {
+	it('hides a record once enough different users reported it', async () => {
+		const store = new MemoryKv();
+
+		expect(await submitReport(store, 'user-a', wrongPrice)).toEqual({ recordName: 'price-1', reportCount: 1, hidden: false });
+		expect(await submitReport(store, 'user-b', wrongPrice)).toMatchObject({ reportCount: 2, hidden: false });
+		expect(await submitReport(store, 'user-c', { ...wrongPrice, reason: 'outdated' })).toMatchObject({ reportCount: 3, hidden: true });
+
+		expect(await listHiddenRecords(store)).toEqual(['price-1']);
+	});
+
+	it('counts repeated reports from one user once', async () => {
+		const store = new MemoryKv();
+
+		await submitReport(store, 'user-a', wrongPrice);
+		await submitReport(store, 'user-a', wrongPrice);
+		const outcome = await submitReport(store, 'user-a', { ...wrongPrice, reason: 'spam', comment: 'Not a menu' });
+
+		expect(outcome).toMatchObject({ reportCount: 1, hidden: false });
+		const entry = await getReportEntry(store, 'price-1');
+		expect(entry?.reports).toEqual([{ userId: 'user-a', reason: 'spam', comment: 'Not a menu', createdAt: expect.any(Number) }]);
+	});
+
+	it('uses the configured threshold', async () => {
+		const store = new MemoryKv();
+
+		expect(await submitReport(store, 'user-a', wrongPrice, { threshold: 1, now: () => 1000 })).toMatchObject({ hidden: true });
+		expect(await getReportEntry(store, 'price-1')).toMatchObject({ hidden: true, hiddenAt: 1000, cafeRecordName: 'cafe-1' });
+	});
+
+	it('lists hidden records across pages', async () => {
+		const store = new MemoryKv();
+		for (const recordName of ['price-1', 'price-2', 'price-3']) {
+			await submitReport(store, 'user-a', { recordName, reason: 'spam' }, { threshold: 1 });
+		}
+		await submitReport(store, 'user-a', { recordName: 'price-4', reason: 'spam' });
+
+		expect(await listHiddenRecords(store)).toEqual(['price-1', 'price-2', 'price-3']);
+	});
+});
+
+describe('setRecordHidden', () => {
+	it('hides a record that was never reported', async () => {
+		const store = new MemoryKv();
+
+		const entry = await setRecordHidden(store, { recordName: 'price-1', cafeRecordName: 'cafe-1' }, true, () => 1000);
+
+		expect(entry).toEqual({ recordName: 'price-1', cafeRecordName: 'cafe-1', reports: [], hidden: true, hiddenAt: 1000 });
+		expect(await listHiddenRecords(store)).toEqual(['price-1']);
+	});
+
+	it('restores a hidden record and only counts later reports towards hiding it again', async () => {
+		const store = new MemoryKv();
+		let now = 1000;
+		const options = { threshold: 2, now: () => now };
+		await submitReport(store, 'user-a', wrongPrice, options);
+		await submitReport(store, 'user-b', wrongPrice, options);
+
+		now = 2000;
+		expect(await setRecordHidden(store, wrongPrice, false, () => now)).toMatchObject({ hidden: false, restoredAt: 2000 });
+		expect(await listHiddenRecords(store)).toEqual([]);
+
+		now = 3000;
+		expect(await submitReport(store, 'user-c', wrongPrice, options)).toMatchObject({ reportCount: 1, hidden: false });
+		expect(await submitReport(store, 'user-a', wrongPrice, options)).toMatchObject({ reportCount: 2, hidden: true });
+	});
+});
+
+describe('listReportEntries', () => {
+	it('lists every entry with the most recent activity first', async () => {
+		const store = new MemoryKv();
+		await submitReport(store, 'user-a', { recordName: 'price-1', reason: 'spam' }, { now: () => 1000 });
+		await submitReport(store, 'user-a', { recordName: 'price-2', reason: 'spam' }, { now: () => 2000 });
+		await submitReport(store, 'user-a', { recordName: 'price-3', reason: 'spam' }, { now: () => 3000 });
+		await setRecordHidden(store, { recordName: 'price-1' }, true, () => 4000);
+
+		expect((await listReportEntries(store)).map((entry) => entry.recordName)).toEqual(['price-1', 'price-3', 'price-2']);
+	});
+});
+
+describe('moveReportsToCafe', () => {
+	it('points the entries of a merged cafe at the cafe it was merged into', async () => {
+		const store = new MemoryKv();
+		await submitReport(store, 'user-a', wrongPrice);
+		await submitReport(store, 'user-a', { ...wrongPrice, recordName: 'price-2', cafeRecordName: 'cafe-2' });
+
+		expect(await moveReportsToCafe(store, 'cafe-1', 'cafe-3')).toBe(1);
+
+		const cafes = Object.fromEntries((await listReportEntries(store)).map((entry) => [entry.recordName, entry.cafeRecordName]));
+		expect(cafes).toEqual({ 'price-1': 'cafe-3', 'price-2': 'cafe-2' });
+	});
+});
+
+describe('hideThresholdFromEnv', () => {
+	it('defaults to three reports and ignores invalid values', () => {
+		expect(hideThresholdFromEnv(undefined)).toBe(3);
+		expect(hideThresholdFromEnv('5')).toBe(5);
+		expect(hideThresholdFromEnv('0')).toBe(3);
+	});
+});
+
+describe('parseReportRequest', () => {
+	function post(body: string): Request {
+		return new Request('http://example.com/v1/reports', { method: 'POST', body });
+	}
+
+	it('accepts a valid report', async () => {
+		const body = JSON.stringify({ ...wrongPrice, comment: '  was 2.40  ' });
+		expect(await parseReportRequest(post(body))).toEqual({ ...wrongPrice, comment: 'was 2.40' });
+	});
+
+	it('rejects unknown reasons', async () => {
+		const error = await parseReportRequest(post(JSON.stringify({ ...wrongPrice, reason: 'ugly' }))).catch((e) => e);
+
+		expect(error).toBeInstanceOf(ApiError);
+		expect(error).toMatchObject({ status: 400, code: 'INVALID_REQUEST' });
+		expect(error.detail).toMatch(/^reason:/);
+	});
+
+	it('rejects invalid JSON', async () => {
+		await expect(parseReportRequest(post('{'))).rejects.toMatchObject({ status: 400, error: 'Invalid JSON body' });
+	});
+});
+
+describe('parseModerationRequest', () => {
+	it('accepts a record name and ignores report fields', async () => {
+		expect(await parseModerationRequest(new Request('http://example.com', { method: 'POST', body: JSON.stringify(wrongPrice) }))).toEqual({
+			recordName: 'price-1',
+			cafeRecordName: 'cafe-1',
+		});
+	});
+});
+
+describe('report routes', () => {
+	async function send(path: string, init?: RequestInit<IncomingRequestCfProperties>, bindings = env): Promise<Response> {
+		const request = new Request<unknown, IncomingRequestCfProperties>(`http://example.com${path}`, init);
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, bindings, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('requires authorization to report', async () => {
+		const response = await send('/v1/reports', { method: 'POST', body: JSON.stringify(wrongPrice) });
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ error: 'Missing authorization token', code: 'MISSING_TOKEN' });
+	});
+
+	it('lists hidden records without authorization', async () => {
+		const store = new MemoryKv();
+		await submitReport(store, 'user-a', wrongPrice, { threshold: 1 });
+
+		const response = await send('/v1/reports/hidden', undefined, { ...env, REPORTS: store });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Cache-Control')).toBe('public, max-age=60');
+		expect(await response.json()).toEqual({ recordNames: ['price-1'] });
+	});
+
+	it('requires authorization for the admin endpoints', async () => {
+		for (const [path, method] of [
+			['/v1/admin/reports', 'GET'],
+			['/v1/admin/records/hide', 'POST'],
+			['/v1/admin/records/restore', 'POST'],
+		]) {
+			const response = await send(path, { method, headers: { Authorization: 'Bearer not-a-jwt' } });
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toMatchObject({ code: 'INVALID_TOKEN' });
+		}
+	});
+
+	it('lists no hidden records without a reports namespace', async () => {
+		const response = await send('/v1/reports/hidden');
+
+		expect(await response.json()).toEqual({ recordNames: [] });
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractPrices } from '../src/providers';
+import { FAKE_PRICE_RESULT, FakeProvider } from '../src/providers/fake';
+import { extractWithCache, imageHash, resultCacheKey, ttlFromEnv, type ResultStore } from '../src/result-cache';
+
+// Local stand-in for a KV namespace
+class MemoryKv implements ResultStore {
+	readonly entries = new Map<string, { value: string; expirationTtl?: number }>();
+
+	async get(key: string): Promise<unknown> {
+		const entry = this.entries.get(key);
+		return entry ? JSON.parse(entry.value) : null;
+	}
+
+	async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+		this.entries.set(key, { value, expirationTtl: options?.expirationTtl });
+	}
+}
+
+const menu = new TextEncoder().encode('menu photo bytes');
+const otherMenu = new TextEncoder().encode('another menu');
+
+function spyingExtract() {
+	const provider = new FakeProvider();
+	const spy = vi.spyOn(provider, 'extract');
+	const extract = () => extractPrices([provider], { imageBase64: btoa('menu photo bytes'), mediaType: 'image/jpeg' }, 1000);
+	return { spy, extract };
+}
+
+describe('extractWithCache', () => {
+	it('calls the model once for repeated scans of the same image', async () => {
+		const store = new MemoryKv();
+		const { spy, extract } = spyingExtract();
+
+		const first = await extractWithCache(menu, extract, { store });
+		const second = await extractWithCache(menu, extract, { store });
+
+		expect(spy).toHaveBeenCalledOnce();
+		expect(first).toEqual({ result: FAKE_PRICE_RESULT, cached: false });
+		expect(second).toEqual({ result: FAKE_PRICE_RESULT, cached: true });
+	});
+
+	it('keys entries by image bytes', async () => {
+		const store = new MemoryKv();
+		const { spy, extract } = spyingExtract();
+
+		await extractWithCache(menu, extract, { store });
+		await extractWithCache(otherMenu, extract, { store });
+
+		expect(spy).toHaveBeenCalledTimes(2);
+		expect(store.entries.size).toBe(2);
+	});
+
+	it('bypasses the lookup on request but refreshes the entry', async () => {
+		const store = new MemoryKv();
+		const { spy, extract } = spyingExtract();
+
+		await extractWithCache(menu, extract, { store });
+		const bypassed = await extractWithCache(menu, extract, { store, bypass: true });
+
+		expect(spy).toHaveBeenCalledTimes(2);
+		expect(bypassed.cached).toBe(false);
+		expect(store.entries.size).toBe(1);
+	});
+
+	it('stores entries with the configured TTL', async () => {
+		const store = new MemoryKv();
+		const { extract } = spyingExtract();
+
+		await extractWithCache(menu, extract, { store, ttlSeconds: 3600 });
+
+		expect(store.entries.get(resultCacheKey(await imageHash(menu)))?.expirationTtl).toBe(3600);
+	});
+
+	it('ignores entries that no longer match the schema', async () => {
+		const store = new MemoryKv();
+		const { spy, extract } = spyingExtract();
+		await store.put(resultCacheKey(await imageHash(menu)), JSON.stringify({ drinks: 'corrupt' }));
+
+		const result = await extractWithCache(menu, extract, { store });
+
+		expect(spy).toHaveBeenCalledOnce();
+		expect(result.cached).toBe(false);
+	});
+
+	it('falls through to the model when the store fails', async () => {
+		const store: ResultStore = {
+			get: async () => Promise.reject(new Error('KV unavailable')),
+			put: async () => Promise.reject(new Error('KV unavailable')),
+		};
+		const { spy, extract } = spyingExtract();
+
+		expect(await extractWithCache(menu, extract, { store })).toEqual({ result: FAKE_PRICE_RESULT, cached: false });
+		expect(spy).toHaveBeenCalledOnce();
+	});
+
+	it('does not cache failed extractions', async () => {
+		const store = new MemoryKv();
+
+		await expect(extractWithCache(menu, () => Promise.reject(new Error('model down')), { store })).rejects.toThrow('model down');
+		expect(store.entries.size).toBe(0);
+	});
+
+	it('runs without a store', async () => {
+		const { spy, extract } = spyingExtract();
+
+		await extractWithCache(menu, extract, {});
+		await extractWithCache(menu, extract, {});
+
+		expect(spy).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('ttlFromEnv', () => {
+	it('defaults when unset or invalid and respects the KV minimum', () => {
+		expect(ttlFromEnv(undefined)).toBe(7 * 24 * 60 * 60);
+		expect(ttlFromEnv('soon')).toBe(7 * 24 * 60 * 60);
+		expect(ttlFromEnv('10')).toBe(60);
+		expect(ttlFromEnv('3600')).toBe(3600);
+	});
+});
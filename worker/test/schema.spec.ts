@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod/v4';
+import { FAKE_PRICE_RESULT } from '../src/providers/fake';
+import { RESPONSE_SCHEMA_VERSION, mergeResults, normalizeDrink, priceResultSchema, toExtractionResponse, toLegacyDrinks } from '../src/schema';
+
+describe('priceResultSchema', () => {
+	it('accepts the pre-v2 shape with only name and price', () => {
+		expect(priceResultSchema.parse({ drinks: [{ name: 'Espresso', price: 2.5 }] })).toEqual({ drinks: [{ name: 'Espresso', price: 2.5 }] });
+	});
+
+	it('accepts sizes, variants, currency, confidence and raw text', () => {
+		expect(priceResultSchema.parse(FAKE_PRICE_RESULT)).toEqual(FAKE_PRICE_RESULT);
+	});
+
+	it('rejects out-of-range confidence and malformed currency', () => {
+		expect(() => priceResultSchema.parse({ drinks: [{ name: 'Espresso', price: 2.5, confidence: 1.5 }] })).toThrow();
+		expect(() => priceResultSchema.parse({ drinks: [{ name: 'Espresso', price: 2.5, currency: 'Euro' }] })).toThrow();
+	});
+
+	it('converts to JSON Schema for structured output', () => {
+		const schema = z.toJSONSchema(priceResultSchema) as { properties: { drinks: { items: { required: string[] } } } };
+		expect(schema.properties.drinks.items.required).toEqual(['name', 'price']);
+	});
+});
+
+describe('toLegacyDrinks', () => {
+	it('keeps one plain, smallest entry per drink in first-seen order', () => {
+		expect(toLegacyDrinks(FAKE_PRICE_RESULT.drinks.map(normalizeDrink))).toEqual([
+			{ name: 'Espresso', price: 2.5 },
+			{ name: 'Cappuccino', price: 3.8 },
+			{ name: 'Flat White', price: 4.2 },
+		]);
+	});
+
+	it('prefers the plain drink over a cheaper-looking variant', () => {
+		const drinks = [
+			{ name: 'Latte', price: 3.9, variant: 'Decaf' },
+			{ name: 'latte', price: 4.1 },
+		];
+		expect(toLegacyDrinks(drinks.map(normalizeDrink))).toEqual([{ name: 'Latte', price: 4.1 }]);
+	});
+
+	it('falls back to the cheapest when sizes have no volume', () => {
+		const drinks = [
+			{ name: 'Americano', price: 3.9, size: 'L' },
+			{ name: 'Americano', price: 3.2, size: 'S' },
+		];
+		expect(toLegacyDrinks(drinks.map(normalizeDrink))).toEqual([{ name: 'Americano', price: 3.2 }]);
+	});
+});
+
+describe('toExtractionResponse', () => {
+	it('returns versioned items alongside legacy drinks', () => {
+		const response = toExtractionResponse([{ drinks: [{ name: 'Espresso', price: 3.5, currency: 'chf' }] }]);
+
+		expect(response).toEqual({
+			schemaVersion: RESPONSE_SCHEMA_VERSION,
+			drinks: [{ name: 'Espresso', price: 3.5 }],
+			items: [{ name: 'Espresso', price: 3.5, currency: 'CHF', drinkId: 'espresso', sourceImage: 0 }],
+		});
+	});
+
+	it('maps drink name spellings onto the catalog', () => {
+		const response = toExtractionResponse([
+			{
+				drinks: [
+					{ name: 'Double Espresso', price: 3.2 },
+					{ name: 'Espresso Doppio', price: 3.4, variant: 'Decaf' },
+					{ name: 'Café Latte', price: 4.0 },
+					{ name: 'Latte Macchiato', price: 4.2 },
+					{ name: 'Chai Latte', price: 4.5 },
+				],
+			},
+		]);
+
+		expect(response.items.map((item) => [item.drinkId, item.name])).toEqual([
+			['doppio', 'Doppio'],
+			['doppio', 'Doppio'],
+			['latte', 'Latte'],
+			['latte-macchiato', 'Latte Macchiato'],
+			['chai latte', 'Chai Latte'],
+		]);
+		expect(response.drinks).toEqual([
+			{ name: 'Doppio', price: 3.2 },
+			{ name: 'Latte', price: 4.0 },
+			{ name: 'Latte Macchiato', price: 4.2 },
+			{ name: 'Chai Latte', price: 4.5 },
+		]);
+	});
+});
+
+describe('mergeResults', () => {
+	it('keeps drinks from every image with their source index', () => {
+		const items = mergeResults([{ drinks: [{ name: 'Espresso', price: 2.5 }] }, { drinks: [{ name: 'Filterkaffee', price: 3.0 }] }]);
+
+		expect(items.map((item) => [item.drinkId, item.sourceImage])).toEqual([
+			['espresso', 0],
+			['filter-coffee', 1],
+		]);
+	});
+
+	it('deduplicates the same drink, size and variant across images', () => {
+		const items = mergeResults([
+			{ drinks: [{ name: 'Cappuccino', price: 3.8, size: 'klein', confidence: 0.6 }] },
+			{
+				drinks: [
+					{ name: 'Cappucino', price: 3.9, size: 'Klein', confidence: 0.9 },
+					{ name: 'Cappuccino', price: 4.6, size: 'groß' },
+					{ name: 'Cappuccino', price: 4.3, size: 'klein', variant: 'Oat milk' },
+				],
+			},
+			{ drinks: [{ name: 'Cappuccino', price: 3.8, size: 'klein', confidence: 0.9 }] },
+		]);
+
+		expect(items.map(({ price, size, variant, sourceImage }) => ({ price, size, variant, sourceImage }))).toEqual([
+			{ price: 3.9, size: 'Klein', variant: undefined, sourceImage: 1 },
+			{ price: 4.6, size: 'groß', variant: undefined, sourceImage: 1 },
+			{ price: 4.3, size: 'klein', variant: 'Oat milk', sourceImage: 1 },
+		]);
+	});
+
+	it('builds legacy drinks from the merged items', () => {
+		const response = toExtractionResponse([
+			{ drinks: [{ name: 'Latte', price: 4.2, volumeMl: 400 }] },
+			{ drinks: [{ name: 'Caffè Latte', price: 3.6, volumeMl: 250 }] },
+		]);
+
+		expect(response.drinks).toEqual([{ name: 'Latte', price: 3.6 }]);
+		expect(response.items).toHaveLength(2);
+	});
+});
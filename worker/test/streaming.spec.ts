@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { runExtraction, type ExtractionEvent } from '../src/extract';
+import { completeDrinkObjects } from '../src/partial-json';
+import { FAKE_PRICE_RESULT, FakeProvider } from '../src/providers/fake';
+import { formatEvent, sseResponse, wantsEventStream } from '../src/sse';
+import type { ExtractImage } from '../src/validation';
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+const image: ExtractImage = { base64: btoa(String.fromCharCode(...JPEG)), bytes: JPEG, mediaType: 'image/jpeg' };
+
+function parseEvents(text: string): { event: string; data: unknown }[] {
+	return text
+		.split('\n\n')
+		.filter(Boolean)
+		.map((block) => {
+			const [eventLine, dataLine] = block.split('\n');
+			return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+		});
+}
+
+describe('completeDrinkObjects', () => {
+	it('returns nothing before the drinks array starts', () => {
+		expect(completeDrinkObjects('')).toEqual([]);
+		expect(completeDrinkObjects('{"dri')).toEqual([]);
+	});
+
+	it('returns only the finished objects of a truncated document', () => {
+		const text = '{"drinks": [{"name": "Espresso", "price": 2.5}, {"name": "Cappu';
+		expect(completeDrinkObjects(text)).toEqual([{ name: 'Espresso', price: 2.5 }]);
+	});
+
+	it('ignores braces and quotes inside strings', () => {
+		const text = '{"drinks":[{"name":"Latte {oat}","price":4,"rawText":"Latte \\"Hafer\\" }"},{"name":"Mocha","price":4.5}]}';
+		expect(completeDrinkObjects(text)).toEqual([
+			{ name: 'Latte {oat}', price: 4, rawText: 'Latte "Hafer" }' },
+			{ name: 'Mocha', price: 4.5 },
+		]);
+	});
+
+	it('returns every object of the complete document', () => {
+		expect(completeDrinkObjects(JSON.stringify(FAKE_PRICE_RESULT))).toEqual(FAKE_PRICE_RESULT.drinks);
+	});
+});
+
+describe('runExtraction', () => {
+	it('reports the model start and drinks as they stream in', async () => {
+		const events: ExtractionEvent[] = [];
+		const summary = await runExtraction([image], { providers: [new FakeProvider()], timeoutMs: 1000, cache: {} }, (event) =>
+			events.push(event),
+		);
+
+		expect(events[0]).toEqual({ event: 'model_started', data: { image: 0, provider: 'fake' } });
+		const streamed = events.flatMap((event) => (event.event === 'drinks' ? event.data.drinks : []));
+		expect(events.filter((event) => event.event === 'drinks').length).toBeGreaterThan(1);
+		expect(streamed).toEqual(summary.items);
+	});
+
+	it('returns the same summary with or without progress reporting', async () => {
+		const options = { providers: [new FakeProvider()], timeoutMs: 1000, cache: {} };
+
+		expect(await runExtraction([image], options, () => {})).toEqual(await runExtraction([image], options));
+	});
+});
+
+describe('sseResponse', () => {
+	it('streams events in order and closes', async () => {
+		const response = sseResponse(
+			async (send) => {
+				await send('accepted', { imageCount: 1 });
+				await send('result', { success: true });
+			},
+			() => {},
+		);
+
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		expect(parseEvents(await response.text())).toEqual([
+			{ event: 'accepted', data: { imageCount: 1 } },
+			{ event: 'result', data: { success: true } },
+		]);
+	});
+
+	it('formats events as SSE frames', () => {
+		expect(formatEvent('error', { error: 'Internal server error', code: 'INTERNAL_ERROR' })).toBe(
+			'event: error\ndata: {"error":"Internal server error","code":"INTERNAL_ERROR"}\n\n',
+		);
+	});
+
+	it('is opt-in through the Accept header', () => {
+		expect(wantsEventStream(new Request('http://example.com', { headers: { Accept: 'text/event-stream' } }))).toBe(true);
+		expect(wantsEventStream(new Request('http://example.com', { headers: { Accept: 'application/json' } }))).toBe(false);
+		expect(wantsEventStream(new Request('http://example.com'))).toBe(false);
+	});
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError } from '../src/http';
+import { MAX_IMAGES, MAX_IMAGE_BYTES, parseExtractRequest, sniffImageType } from '../src/validation';
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00];
+const WEBP = [...'RIFF'].map((c) => c.charCodeAt(0)).concat([0x24, 0, 0, 0], [...'WEBPVP8 '].map((c) => c.charCodeAt(0)));
+const HEIC = [0, 0, 0, 0x18, ...[...'ftypheic'].map((c) => c.charCodeAt(0)), 0, 0, 0, 0];
+
+function base64(bytes: number[]): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+	return new Request('http://example.com/v1/extract', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: typeof body === 'string' ? body : JSON.stringify(body),
+	});
+}
+
+async function rejection(request: Request): Promise<{ status: number; code: string; error: string }> {
+	try {
+		await parseExtractRequest(request);
+	} catch (error) {
+		if (error instanceof ApiError) return { status: error.status, code: error.code, error: error.error };
+		throw error;
+	}
+	throw new Error('Expected request to be rejected');
+}
+
+describe('parseExtractRequest', () => {
+	it('accepts a JPEG and defaults the media type', async () => {
+		const parsed = await parseExtractRequest(post({ image: base64(JPEG) }));
+
+		expect(parsed.images).toEqual([{ base64: base64(JPEG), bytes: new Uint8Array(JPEG), mediaType: 'image/jpeg' }]);
+		expect(parsed.bypassCache).toBe(false);
+		expect(parsed.reference).toBeNull();
+	});
+
+	it('accepts reference prices to flag outliers against', async () => {
+		const reference = { stats: { Espresso: { q1: 2.2, median: 2.5, q3: 2.8 } }, history: [{ name: 'Espresso', price: 2.6 }] };
+
+		expect((await parseExtractRequest(post({ image: base64(JPEG), reference }))).reference).toEqual(reference);
+		expect(await rejection(post({ image: base64(JPEG), reference: { history: 'none' } }))).toMatchObject({
+			status: 400,
+			error: 'Invalid request body',
+		});
+	});
+
+	it.each([
+		['image/png', PNG],
+		['image/webp', WEBP],
+		['image/heic', HEIC],
+		['image/heif', HEIC],
+		['image/jpg', JPEG],
+		['IMAGE/JPEG; charset=binary', JPEG],
+	])('accepts %s', async (mediaType, bytes) => {
+		await expect(parseExtractRequest(post({ image: base64(bytes), mediaType }))).resolves.toBeTruthy();
+	});
+
+	it('returns 400 for invalid JSON', async () => {
+		expect(await rejection(post('{"image": '))).toEqual({ status: 400, code: 'INVALID_REQUEST', error: 'Invalid JSON body' });
+	});
+
+	it('returns 400 for a missing or empty image', async () => {
+		expect(await rejection(post({}))).toEqual({ status: 400, code: 'INVALID_REQUEST', error: 'Missing image data' });
+		expect(await rejection(post({ image: '' }))).toEqual({ status: 400, code: 'INVALID_REQUEST', error: 'Missing image data' });
+	});
+
+	it('returns 400 for fields of the wrong type', async () => {
+		expect(await rejection(post({ image: 42 }))).toMatchObject({ status: 400, error: 'Invalid request body' });
+		expect(await rejection(post({ image: base64(JPEG), bypassCache: 'yes' }))).toMatchObject({ status: 400, error: 'Invalid request body' });
+		expect(await rejection(post([]))).toMatchObject({ status: 400, error: 'Invalid request body' });
+	});
+
+	it('returns 400 for data that is not base64', async () => {
+		expect(await rejection(post({ image: 'not base64!' }))).toEqual({ status: 400, code: 'INVALID_REQUEST', error: 'Invalid image data' });
+		expect(await rejection(post({ image: 'abc' }))).toMatchObject({ status: 400, error: 'Invalid image data' });
+	});
+
+	it('returns 413 for images over the size limit', async () => {
+		const image = 'A'.repeat(Math.ceil(((MAX_IMAGE_BYTES + 3) * 4) / 3 / 4) * 4);
+		expect(await rejection(post({ image }))).toEqual({ status: 413, code: 'PAYLOAD_TOO_LARGE', error: 'Image too large' });
+	});
+
+	it('returns 413 from Content-Length before reading the body', async () => {
+		const request = post({ image: base64(JPEG) }, { 'Content-Length': String(100 * 1024 * 1024) });
+		expect(await rejection(request)).toEqual({ status: 413, code: 'PAYLOAD_TOO_LARGE', error: 'Request body too large' });
+	});
+
+	it('returns 415 for types outside the allowlist', async () => {
+		expect(await rejection(post({ image: base64(JPEG), mediaType: 'image/gif' }))).toEqual({
+			status: 415,
+			code: 'UNSUPPORTED_MEDIA_TYPE',
+			error: 'Unsupported image type',
+		});
+		expect(await rejection(post({ image: base64(JPEG), mediaType: 'application/pdf' }))).toMatchObject({ status: 415 });
+	});
+
+	it('returns 415 when the bytes do not match the declared type', async () => {
+		expect(await rejection(post({ image: base64(PNG), mediaType: 'image/jpeg' }))).toEqual({
+			status: 415,
+			code: 'UNSUPPORTED_MEDIA_TYPE',
+			error: 'Image does not match its type',
+		});
+		expect(await rejection(post({ image: btoa('<svg></svg>'), mediaType: 'image/png' }))).toMatchObject({ status: 415 });
+	});
+});
+
+function multipart(files: (File | string)[], fields: Record<string, string> = {}): Request {
+	const form = new FormData();
+	for (const file of files) form.append('image', file);
+	for (const [name, value] of Object.entries(fields)) form.append(name, value);
+	return new Request('http://example.com/v1/extract', { method: 'POST', body: form });
+}
+
+describe('parseExtractRequest with multipart/form-data', () => {
+	it('accepts several images in upload order', async () => {
+		const parsed = await parseExtractRequest(
+			multipart([new File([new Uint8Array(JPEG)], 'board-1.jpg', { type: 'image/jpeg' }), new File([new Uint8Array(PNG)], 'board-2.png')], {
+				bypassCache: 'true',
+			}),
+		);
+
+		expect(parsed.images.map((image) => image.mediaType)).toEqual(['image/jpeg', 'image/png']);
+		expect(parsed.images[0].base64).toBe(base64(JPEG));
+		expect(parsed.bypassCache).toBe(true);
+		expect(parsed.reference).toBeNull();
+	});
+
+	it('parses the reference field as JSON', async () => {
+		const image = new File([new Uint8Array(JPEG)], 'menu.jpg', { type: 'image/jpeg' });
+		const reference = { history: [{ name: 'Espresso', price: 2.6 }] };
+
+		expect((await parseExtractRequest(multipart([image], { reference: JSON.stringify(reference) }))).reference).toEqual(reference);
+		expect(await rejection(multipart([image], { reference: '{' }))).toMatchObject({ status: 400, error: 'Invalid request body' });
+	});
+
+	it('returns 400 without image files', async () => {
+		expect(await rejection(multipart([], { note: 'hi' }))).toEqual({ status: 400, code: 'INVALID_REQUEST', error: 'Missing image data' });
+		expect(await rejection(multipart(['not a file']))).toMatchObject({ status: 400, error: 'Invalid request body' });
+	});
+
+	it('returns 400 for too many images', async () => {
+		const files = Array.from({ length: MAX_IMAGES + 1 }, (_, i) => new File([new Uint8Array(JPEG)], `${i}.jpg`));
+		expect(await rejection(multipart(files))).toMatchObject({ status: 400, error: 'Too many images' });
+	});
+
+	it('returns 413 for an oversized file', async () => {
+		const big = new Uint8Array(MAX_IMAGE_BYTES + 1);
+		big.set(JPEG);
+		expect(await rejection(multipart([new File([big], 'big.jpg', { type: 'image/jpeg' })]))).toMatchObject({
+			status: 413,
+			code: 'PAYLOAD_TOO_LARGE',
+		});
+	});
+
+	it('returns 415 for a file that is not a supported image', async () => {
+		expect(await rejection(multipart([new File(['%PDF-1.7'], 'menu.pdf', { type: 'application/pdf' })]))).toMatchObject({ status: 415 });
+		expect(await rejection(multipart([new File(['%PDF-1.7'], 'menu')]))).toMatchObject({ status: 415 });
+		expect(await rejection(multipart([new File([new Uint8Array(PNG)], 'menu.jpg', { type: 'image/jpeg' })]))).toMatchObject({
+			status: 415,
+			error: 'Image does not match its type',
+		});
+	});
+});
+
+describe('sniffImageType', () => {
+	it('recognizes supported formats by magic bytes', () => {
+		expect(sniffImageType(new Uint8Array(JPEG))).toBe('image/jpeg');
+		expect(sniffImageType(new Uint8Array(PNG))).toBe('image/png');
+		expect(sniffImageType(new Uint8Array(WEBP))).toBe('image/webp');
+		expect(sniffImageType(new Uint8Array(HEIC))).toBe('image/heic');
+		expect(sniffImageType(new Uint8Array([0x47, 0x49, 0x46, 0x38]))).toBeNull();
+		expect(sniffImageType(new Uint8Array())).toBeNull();
+	});
+});
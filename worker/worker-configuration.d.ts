@@ -7,6 +7,8 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		APPLE_APP_BUNDLE_ID: "com.timokuehne.Espressokarte";
+		APPLE_SHARE_EXTENSION_BUNDLE_ID: "com.timokuehne.Espressokarte.EspressokarteShare";
+		APPLE_WEB_SERVICES_ID: "com.timokuehne.Espressokarte.web";
 	}
 }
 interface Env extends Cloudflare.Env {}